@@ -0,0 +1,122 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+import { type ExtractedContent, NOT_MODIFIED, extractorRegistry } from "../server/extractors";
+
+// Runs the extractor registry against the saved pages in fixtures/extractors, served from a
+// local HTTP server, and checks what comes back. Offline and deterministic: no model key is
+// set, so article descriptions use the page's own outline instead of a model summary.
+//   npm run check:extractors
+
+process.env.FETCH_ALLOW_PRIVATE = "true";
+process.env.LLM_PROVIDER = "gemini";
+process.env.GEMINI_API_KEY = "";
+process.env.API_KEY = "";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "extractors");
+
+type Check = (content: ExtractedContent, base: string) => string[];
+
+const expectEqual = (label: string, actual: unknown, expected: unknown) =>
+  JSON.stringify(actual) === JSON.stringify(expected) ? [] : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+
+const expectThat = (label: string, ok: boolean) => ok ? [] : [label];
+
+const CHECKS: Record<string, Check> = {
+  // Open Graph for the copy, a Recipe inside an @graph wrapper for the details
+  recipe: (content) => [
+    ...expectEqual("extractor", content.extractor, "open_graph"),
+    ...expectEqual("title", content.title, "20-Minute Lemon Garlic Pasta"),
+    ...expectEqual("description", content.description, "A bright, five-ingredient pasta for busy weeknights."),
+    ...expectEqual("content_type", content.content_type, "recipe"),
+    ...expectEqual("first image", content.images[0], "https://cdn.example.com/img/lemon-pasta-tall.jpg"),
+    ...expectEqual("tags", content.tags, ["pasta", "weeknight dinner"]),
+    ...expectEqual("author", content.author, "Dana Cook"),
+    ...expectEqual("prep_time", content.structured?.prep_time, "5 minutes"),
+    ...expectEqual("total_time", content.structured?.total_time, "20 minutes"),
+    ...expectEqual("servings", content.structured?.servings, "4 servings"),
+    ...expectEqual("ingredients", content.structured?.ingredients?.length, 5),
+    ...expectEqual("steps", content.structured?.steps, [
+      "Boil the spaghetti until al dente.",
+      "Fry the garlic in olive oil.",
+      "Toss with lemon zest, juice and parmesan.",
+    ]),
+  ],
+  // No Open Graph, a broken JSON-LD block before the real one, and a logo to skip
+  product: (content, base) => [
+    ...expectEqual("title", content.title, "Linen Throw Blanket – Homebody Goods"),
+    ...expectEqual("description", content.description, "Stonewashed linen throw in six colours."),
+    ...expectEqual("content_type", content.content_type, "product"),
+    ...expectEqual("tags", content.tags, ["linen", "throw", "blanket"]),
+    ...expectEqual("price", content.structured?.price, "59.00 USD"),
+    ...expectEqual("availability", content.structured?.availability, "In Stock"),
+    ...expectEqual("brand", content.structured?.brand, "Homebody"),
+    ...expectEqual("first image", content.images[0], `${base}/products/linen-throw-detail.jpg`),
+    ...expectThat("the JSON-LD image is kept", content.images.includes("https://cdn.example.com/products/linen-throw.jpg")),
+    ...expectThat("the logo is skipped", !content.images.some(image => image.includes("logo"))),
+  ],
+  // No structured data: the article body is read for an outline, without nav or comments
+  article: (content, base) => [
+    ...expectEqual("title", content.title, "Small Balcony Garden Ideas"),
+    ...expectEqual("content_type", content.content_type, "article"),
+    ...expectEqual("published_at", content.published_at, "2024-05-10T08:00:00Z"),
+    ...expectEqual("structured", content.structured, null),
+    ...expectEqual("first image", content.images[0], `${base}/img/balcony-1200.jpg`),
+    ...expectThat("description starts with the outline", content.description.startsWith(
+      "SUMMARY: Key points:\n- Start with the light\n- Grow up, not out\n- Water little and often"
+    )),
+    ...expectThat("description keeps the page's own", content.description.includes("ORIGINAL DESCRIPTION: How to grow food and flowers on a tiny balcony.")),
+  ],
+};
+
+// Platform extractors claim their own hosts; everything else falls through to Open Graph
+const ROUTES: Record<string, string> = {
+  "https://www.youtube.com/watch?v=dQw4w9WgXcQ": "youtube",
+  "https://youtu.be/dQw4w9WgXcQ": "youtube",
+  "https://www.instagram.com/p/C1a2b3c4d5/": "instagram",
+  "https://www.tiktok.com/@cook/video/7300000000000000000": "tiktok",
+  "https://blog.example.com/lemon-pasta": "open_graph",
+};
+
+const server = http.createServer((req, res) => {
+  const name = path.basename(req.url || "");
+  const file = path.join(FIXTURES, `${name}.html`);
+  if (!/^[\w-]+$/.test(name) || !fs.existsSync(file)) {
+    res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found");
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(fs.readFileSync(file));
+});
+
+async function main() {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as any).port}`;
+  let failures = 0;
+
+  for (const [url, expected] of Object.entries(ROUTES)) {
+    const chosen = extractorRegistry.list().find(extractor => extractor.matches(new URL(url)))?.name;
+    if (chosen !== expected) {
+      failures++;
+      console.log(`✗ route ${url}: expected ${expected}, got ${chosen}`);
+    }
+  }
+
+  for (const [name, check] of Object.entries(CHECKS)) {
+    let problems: string[];
+    try {
+      const content = await extractorRegistry.extract(`${base}/${name}`);
+      problems = content === NOT_MODIFIED ? ["unexpected NOT_MODIFIED"] : check(content, base);
+    } catch (e: any) {
+      problems = [`extraction failed: ${e.message}`];
+    }
+    failures += problems.length;
+    console.log(problems.length === 0 ? `✓ ${name}` : `✗ ${name}\n${problems.map(problem => `    ${problem}`).join("\n")}`);
+  }
+
+  server.close();
+  console.log(failures === 0 ? "All extractor fixtures pass" : `${failures} problem${failures === 1 ? "" : "s"}`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
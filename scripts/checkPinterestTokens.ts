@@ -0,0 +1,151 @@
+import Database from "better-sqlite3";
+import http from "http";
+import { PinterestError, exchangeCodeForTokens, getValidAccessToken, refreshAccessToken } from "../server/pinterest";
+
+// Checks the Pinterest OAuth token exchange and refresh against a local stand-in token
+// endpoint (PINTEREST_TOKEN_URL) and an in-memory database. Offline.
+//   npm run check:pinterest
+
+const CLIENT_ID = "check-client";
+const CLIENT_SECRET = "check-secret";
+
+// What the stand-in received, so checks can look at the requests as well as the answers
+const received: { authorization?: string; params: URLSearchParams }[] = [];
+
+const standIn = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => { body += chunk; });
+  req.on("end", () => {
+    const params = new URLSearchParams(body);
+    received.push({ authorization: req.headers.authorization, params });
+    const reply = (status: number, data: object) => res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(data));
+
+    if (req.method !== "POST" || req.url !== "/oauth/token") return reply(404, { message: "Not found" });
+    if (req.headers.authorization !== `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`) {
+      return reply(401, { message: "Bad client credentials" });
+    }
+    if (params.get("grant_type") === "authorization_code") {
+      if (params.get("code") === "good-code" && params.get("code_verifier")) {
+        return reply(200, { access_token: "access-1", refresh_token: "refresh-1", expires_in: 3600, scope: "boards:read" });
+      }
+      if (params.get("code") === "no-token") return reply(200, {});
+      return reply(400, { error: "invalid_grant" });
+    }
+    if (params.get("grant_type") === "refresh_token") {
+      // Like Pinterest, a refresh doesn't always rotate the refresh token
+      if (params.get("refresh_token") === "refresh-1") return reply(200, { access_token: "access-2", expires_in: 3600 });
+      return reply(400, { error: "invalid_grant" });
+    }
+    reply(400, { error: "unsupported_grant_type" });
+  });
+});
+
+const errorCode = async (run: () => Promise<unknown>) => {
+  try {
+    await run();
+    return "no error";
+  } catch (e: any) {
+    return e instanceof PinterestError ? e.code : `unexpected ${e.message}`;
+  }
+};
+
+const expectEqual = (label: string, actual: unknown, expected: unknown) =>
+  JSON.stringify(actual) === JSON.stringify(expected) ? [] : [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+
+function createDb() {
+  const db = new Database(":memory:");
+  db.exec(`
+    CREATE TABLE users (
+      id INTEGER PRIMARY KEY,
+      pinterest_token TEXT,
+      pinterest_refresh_token TEXT,
+      pinterest_token_expires_at DATETIME
+    )
+  `);
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+  const insert = db.prepare("INSERT INTO users (id, pinterest_token, pinterest_refresh_token, pinterest_token_expires_at) VALUES (?, ?, ?, ?)");
+  insert.run(1, "still-valid", "refresh-1", inMinutes(60));
+  insert.run(2, "nearly-expired", "refresh-1", inMinutes(1));
+  insert.run(3, "nearly-expired", "revoked", inMinutes(1));
+  return db;
+}
+
+const CHECKS: Record<string, () => Promise<string[]>> = {
+  "code exchange": async () => {
+    received.length = 0;
+    const tokens = await exchangeCodeForTokens("good-code", "http://localhost:3000/auth/callback", "verifier-123");
+    const params = received[0]?.params;
+    return [
+      ...expectEqual("access_token", tokens.access_token, "access-1"),
+      ...expectEqual("refresh_token", tokens.refresh_token, "refresh-1"),
+      ...expectEqual("grant_type sent", params?.get("grant_type"), "authorization_code"),
+      ...expectEqual("redirect_uri sent", params?.get("redirect_uri"), "http://localhost:3000/auth/callback"),
+      ...expectEqual("code_verifier sent", params?.get("code_verifier"), "verifier-123"),
+    ];
+  },
+  "rejected code": async () => expectEqual("error", await errorCode(() => exchangeCodeForTokens("bad-code", "http://localhost", "v")), "AUTH_EXPIRED"),
+  "answer without a token": async () => expectEqual("error", await errorCode(() => exchangeCodeForTokens("no-token", "http://localhost", "v")), "API_ERROR"),
+  "refresh": async () => {
+    const tokens = await refreshAccessToken("refresh-1");
+    return expectEqual("access_token", tokens.access_token, "access-2");
+  },
+  "valid token is used as is": async () => {
+    received.length = 0;
+    const token = await getValidAccessToken(createDb(), 1);
+    return [...expectEqual("token", token, "still-valid"), ...expectEqual("token requests", received.length, 0)];
+  },
+  "expiring token is refreshed once for concurrent callers": async () => {
+    received.length = 0;
+    const db = createDb();
+    const tokens = await Promise.all([getValidAccessToken(db, 2), getValidAccessToken(db, 2)]);
+    const user = db.prepare("SELECT * FROM users WHERE id = 2").get() as any;
+    return [
+      ...expectEqual("tokens", tokens, ["access-2", "access-2"]),
+      ...expectEqual("token requests", received.length, 1),
+      ...expectEqual("stored token", user.pinterest_token, "access-2"),
+      // Not rotated, so the stored refresh token stays
+      ...expectEqual("stored refresh token", user.pinterest_refresh_token, "refresh-1"),
+      ...expectEqual("new expiry is in the future", new Date(user.pinterest_token_expires_at).getTime() > Date.now() + 30 * 60 * 1000, true),
+    ];
+  },
+  "revoked refresh token disconnects": async () => {
+    const db = createDb();
+    const code = await errorCode(() => getValidAccessToken(db, 3));
+    const user = db.prepare("SELECT * FROM users WHERE id = 3").get() as any;
+    return [
+      ...expectEqual("error", code, "AUTH_EXPIRED"),
+      ...expectEqual("stored tokens", [user.pinterest_token, user.pinterest_refresh_token], [null, null]),
+    ];
+  },
+  "missing client credentials": async () => {
+    delete process.env.PINTEREST_CLIENT_SECRET;
+    const code = await errorCode(() => refreshAccessToken("refresh-1"));
+    process.env.PINTEREST_CLIENT_SECRET = CLIENT_SECRET;
+    return expectEqual("error", code, "CONFIG_ERROR");
+  },
+};
+
+async function main() {
+  await new Promise<void>(resolve => standIn.listen(0, "127.0.0.1", resolve));
+  process.env.PINTEREST_TOKEN_URL = `http://127.0.0.1:${(standIn.address() as any).port}/oauth/token`;
+  process.env.PINTEREST_CLIENT_ID = CLIENT_ID;
+  process.env.PINTEREST_CLIENT_SECRET = CLIENT_SECRET;
+  let failures = 0;
+
+  for (const [name, check] of Object.entries(CHECKS)) {
+    let problems: string[];
+    try {
+      problems = await check();
+    } catch (e: any) {
+      problems = [`threw: ${e.message}`];
+    }
+    failures += problems.length;
+    console.log(problems.length === 0 ? `✓ ${name}` : `✗ ${name}\n${problems.map(problem => `    ${problem}`).join("\n")}`);
+  }
+
+  standIn.close();
+  console.log(failures === 0 ? "All Pinterest token checks pass" : `${failures} problem${failures === 1 ? "" : "s"}`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
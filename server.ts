@@ -3,17 +3,28 @@ import { createServer as createViteServer } from "vite";
 import Database from "better-sqlite3";
 import path from "path";
 import { fileURLToPath } from "url";
-import axios from "axios";
-import * as cheerio from "cheerio";
-import { GoogleGenAI } from "@google/genai";
 import validator from "validator";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import cookieParser from "cookie-parser";
+import multer from "multer";
 import googleTrends from "google-trends-api";
-import { YoutubeTranscript } from 'youtube-transcript';
-import { google } from 'googleapis';
 import { createRequire } from 'module';
+import { createOAuthState, consumeOAuthState } from "./server/oauthState";
+import { PinterestError, exchangeCodeForTokens, getValidAccessToken, listBoards, publishPin, saveTokens } from "./server/pinterest";
+import { startPublishWorker } from "./server/publishWorker";
+import { type BatchOptions, MAX_BATCH_URLS, createBatchRunner, parseBatchInput } from "./server/batchJobs";
+import { editPinImage, generateChapterPins, generatePinContent, generatePinImage } from "./server/pinGeneration";
+import { type ChatTurn, type InlineFile, type JsonSchema, generateStructured, getLlm } from "./server/llm";
+import { AssetError, LocalAssetStorage, MAX_ASSET_BYTES, assetExtension, assetUrl, importAsset, isAssetId, loadAsset, loadOwnedAsset, parseDataUrl, storeAsset, userOwnsAsset } from "./server/assets";
+import { type BulkPinRow, toBulkCsv } from "./server/pinterestExport";
+import { extractWithCache, inspectCacheEntry, listCacheEntries, purgeCache } from "./server/extractionCache";
+import { FetchError } from "./server/safeFetch";
+import { type FeedQueue, FeedError, checkFeed, startFeedPoller } from "./server/sourceFeeds";
+import { ALL_DOMAINS, DEFAULT_UTM_RULES, applyLinkRules, isValidLink } from "./server/linkRules";
+import { MAX_UPLOAD_BYTES, MAX_UPLOAD_FILES, MAX_UPLOAD_TOTAL_BYTES, UploadError, describeUploads, validateUploads } from "./server/uploadSources";
+import { BrandKitError, type BrandKit, checkCopyCompliance, getBrandKit, listBrandKits, parseBrandKit, resolveBrandKit, reviewBrandCompliance, saveBrandKit } from "./server/brandKits";
+import { CTA_STYLES, GenerationOptionsError, TONE_PRESETS, loadGenerationDefaults, parseGenerationOptions, saveGenerationDefaults } from "./server/generationOptions";
 const require = createRequire(import.meta.url);
 let instagramGetUrl: any;
 try {
@@ -27,6 +38,7 @@ const __dirname = path.dirname(__filename);
 
 const db = new Database("pinviral.db");
 const JWT_SECRET = process.env.JWT_SECRET || "pinviral-secret-key-123";
+const assetStorage = new LocalAssetStorage(process.env.ASSET_DIR || path.join(__dirname, "data", "assets"));
 
 // Initialize Database
 db.exec(`
@@ -72,6 +84,159 @@ db.exec(`
     FOREIGN KEY(user_id) REFERENCES users(id)
   );
 
+  CREATE TABLE IF NOT EXISTS oauth_states (
+    nonce TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    code_verifier TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS publish_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pin_id INTEGER NOT NULL,
+    success INTEGER NOT NULL,
+    pinterest_pin_id TEXT,
+    error TEXT,
+    error_code TEXT,
+    attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(pin_id) REFERENCES generated_pins(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS board_cache (
+    user_id INTEGER PRIMARY KEY,
+    boards TEXT NOT NULL,
+    cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS board_defaults (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    match_type TEXT NOT NULL,
+    match_value TEXT NOT NULL COLLATE NOCASE,
+    board_id TEXT NOT NULL,
+    board_section_id TEXT,
+    UNIQUE(user_id, match_type, match_value),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS link_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    match_value TEXT NOT NULL COLLATE NOCASE,
+    param TEXT NOT NULL,
+    value TEXT NOT NULL,
+    UNIQUE(user_id, match_value, param),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS generation_defaults (
+    user_id INTEGER PRIMARY KEY,
+    options TEXT NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS brand_kits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    logo_asset_id TEXT,
+    palette TEXT NOT NULL DEFAULT '[]',
+    heading_font TEXT NOT NULL DEFAULT '',
+    body_font TEXT NOT NULL DEFAULT '',
+    voice TEXT NOT NULL DEFAULT '',
+    banned_phrases TEXT NOT NULL DEFAULT '[]',
+    is_default INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS pin_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pin_id INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    title TEXT,
+    description TEXT,
+    image_url TEXT,
+    asset_id TEXT,
+    change_type TEXT NOT NULL,
+    note TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(pin_id, revision),
+    FOREIGN KEY(pin_id) REFERENCES generated_pins(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS batch_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    status TEXT DEFAULT 'queued',
+    options TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS batch_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT DEFAULT 'pending',
+    error TEXT,
+    pin_ids TEXT,
+    attempts INTEGER DEFAULT 0,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(job_id) REFERENCES batch_jobs(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS source_feeds (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    kind TEXT,
+    title TEXT,
+    options TEXT NOT NULL,
+    enabled INTEGER DEFAULT 1,
+    last_checked_at DATETIME,
+    last_error TEXT,
+    -- Set by the first successful check, which queues only the requested backfill
+    seeded_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, url),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS feed_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feed_id INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    published_at DATETIME,
+    batch_job_id INTEGER,
+    first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(feed_id, url),
+    FOREIGN KEY(feed_id) REFERENCES source_feeds(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS assets (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER,
+    content_type TEXT NOT NULL,
+    byte_size INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Asset ids are content hashes, so the same image can belong to several users
+  CREATE TABLE IF NOT EXISTS asset_owners (
+    asset_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    PRIMARY KEY(asset_id, user_id),
+    FOREIGN KEY(asset_id) REFERENCES assets(id),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
   CREATE TABLE IF NOT EXISTS metadata_cache (
     url TEXT PRIMARY KEY,
     title TEXT,
@@ -81,12 +246,135 @@ db.exec(`
   );
 `);
 
+// Migration: scheduling columns on generated_pins
+for (const column of ["scheduled_at DATETIME", "board_id TEXT", "board_section_id TEXT", "pinterest_pin_id TEXT", "retry_count INTEGER DEFAULT 0", "asset_id TEXT", "link TEXT"]) {
+  try {
+    db.prepare(`ALTER TABLE generated_pins ADD COLUMN ${column}`).run();
+  } catch (e) {
+    // Column likely already exists
+  }
+}
+
+// Migration: the cache keeps the whole extraction result, the page's HTTP validators and a per-source expiry
+for (const column of ["extractor TEXT", "content TEXT", "etag TEXT", "last_modified TEXT", "expires_at DATETIME"]) {
+  try {
+    db.prepare(`ALTER TABLE metadata_cache ADD COLUMN ${column}`).run();
+  } catch (e) {
+    // Column likely already exists
+  }
+}
+
+// Migration: whether a keyword's AI numbers were the model's own answer, repaired, or the fallback
+try {
+  db.prepare("ALTER TABLE trending_keywords ADD COLUMN ai_origin TEXT").run();
+} catch (e) {
+  // Column likely already exists
+}
+
+// Migration: batch jobs started by a source feed point back at it
+try {
+  db.prepare("ALTER TABLE batch_jobs ADD COLUMN feed_id INTEGER").run();
+} catch (e) {
+  // Column likely already exists
+}
+
+// Migration: assets stored before asset_owners existed belong to their uploader
+if (!db.prepare("SELECT 1 FROM asset_owners LIMIT 1").get()) {
+  db.prepare("INSERT OR IGNORE INTO asset_owners (asset_id, user_id) SELECT id, user_id FROM assets WHERE user_id IS NOT NULL").run();
+}
+
+// Migration: feeds checked before seeded_at existed were seeded once they recorded entries
+try {
+  db.prepare("ALTER TABLE source_feeds ADD COLUMN seeded_at DATETIME").run();
+  db.prepare("UPDATE source_feeds SET seeded_at = last_checked_at WHERE id IN (SELECT DISTINCT feed_id FROM feed_entries)").run();
+} catch (e) {
+  // Column likely already exists
+}
+
+// Migration: pins saved before destination links existed point at their source
+db.prepare("UPDATE generated_pins SET link = source_url WHERE link IS NULL AND source_url != ''").run();
+
+// Migration: pins saved before ownership was enforced have no user_id.
+// With a single account they can only belong to that user; otherwise they stay
+// quarantined (invisible to every user) until an admin assigns them.
+const orphanedPins = db.prepare("SELECT COUNT(*) as count FROM generated_pins WHERE user_id IS NULL").get() as { count: number };
+if (orphanedPins.count > 0) {
+  const users = db.prepare("SELECT id FROM users LIMIT 2").all() as { id: number }[];
+  if (users.length === 1) {
+    db.prepare("UPDATE generated_pins SET user_id = ? WHERE user_id IS NULL").run(users[0].id);
+    console.log(`Assigned ${orphanedPins.count} unowned pins to user ${users[0].id}`);
+  } else {
+    console.warn(`${orphanedPins.count} pins have no owner and are quarantined`);
+  }
+}
+
+// Only drafts are set directly; the schedule route, the publish worker and the publish route
+// move pins through the rest
+const PIN_STATUSES = ["draft", "scheduled", "publishing", "published", "failed"];
+const STATUS_ROUTE_ERROR = "Schedule pins through /api/pins/:id/schedule and publish them through /api/pins/publish";
+
+// Pins point at their image through asset_id; image_url is only kept for external images
+const serializePin = (pin: any) => ({ ...pin, image_url: pin.asset_id ? assetUrl(pin.asset_id) : pin.image_url });
+
+// Snapshots a pin's current copy and image as its next revision
+const REVISION_CHANGE_TYPES = ["create", "edit", "image_edit", "duplicate", "restore"];
+
+const recordRevision = (pinId: number | bigint, changeType: string, note: string | null = null) => {
+  db.prepare(`
+    INSERT INTO pin_revisions (pin_id, revision, title, description, image_url, asset_id, change_type, note)
+    SELECT id, (SELECT COALESCE(MAX(revision), 0) + 1 FROM pin_revisions WHERE pin_id = ?), title, description, image_url, asset_id, ?, ?
+    FROM generated_pins WHERE id = ?
+  `).run(pinId, changeType, note, pinId);
+};
+
+const createPinRecord = (userId: number, pin: {
+  source_url: string;
+  title?: string;
+  description?: string;
+  image_url?: string | null;
+  asset_id?: string | null;
+  status?: string;
+  board_id?: string | null;
+  board_section_id?: string | null;
+  link?: string | null;
+}) => {
+  const result = db.prepare(
+    "INSERT INTO generated_pins (user_id, source_url, title, description, image_url, asset_id, status, board_id, board_section_id, link) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  ).run(userId, pin.source_url, pin.title, pin.description, pin.image_url || null, pin.asset_id || null, pin.status || 'draft', pin.board_id || null, pin.board_section_id || null, pin.link || null);
+  recordRevision(result.lastInsertRowid, "create");
+  return Number(result.lastInsertRowid);
+};
+
+// Migration: move base64 images stored inline in generated_pins into the asset store
+async function migrateInlineImages() {
+  const inline = db.prepare("SELECT id, user_id, image_url FROM generated_pins WHERE asset_id IS NULL AND image_url LIKE 'data:%'").all() as any[];
+  for (const pin of inline) {
+    try {
+      const data = parseDataUrl(pin.image_url);
+      if (!data) continue;
+      const asset = await storeAsset(db, assetStorage, data, pin.user_id);
+      db.prepare("UPDATE generated_pins SET asset_id = ?, image_url = NULL WHERE id = ?").run(asset.id, pin.id);
+    } catch (e: any) {
+      console.error(`Failed to migrate image for pin ${pin.id}:`, e.message);
+    }
+  }
+  if (inline.length > 0) console.log(`Moved ${inline.length} inline pin images into the asset store`);
+
+  // Migration: pins saved before revisions existed get their current state as revision 1
+  db.prepare(`
+    INSERT INTO pin_revisions (pin_id, revision, title, description, image_url, asset_id, change_type)
+    SELECT id, 1, title, description, image_url, asset_id, 'create' FROM generated_pins
+    WHERE id NOT IN (SELECT pin_id FROM pin_revisions)
+  `).run();
+}
+
 async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.urlencoded({ limit: '50mb', extended: true }));
+  // Image bytes go through /api/assets, so JSON bodies stay small
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ limit: '1mb', extended: true }));
   app.use(cookieParser());
 
   // Auth Middleware
@@ -96,12 +384,21 @@ async function startServer() {
     try {
       const decoded = jwt.verify(token, JWT_SECRET) as any;
       req.userId = decoded.userId;
+      req.authToken = token;
       next();
     } catch (e) {
       res.status(401).json({ error: "Invalid token" });
     }
   };
 
+  // Operators are listed by email in ADMIN_EMAILS; use after authenticate
+  const ADMIN_EMAILS = new Set((process.env.ADMIN_EMAILS || "").split(",").map(email => email.trim().toLowerCase()).filter(Boolean));
+  const requireAdmin = (req: any, res: any, next: any) => {
+    const user = db.prepare("SELECT email FROM users WHERE id = ?").get(req.userId) as any;
+    if (!user || !ADMIN_EMAILS.has(user.email.toLowerCase())) return res.status(403).json({ error: "Admin access required" });
+    next();
+  };
+
   // API Routes
   app.post("/api/auth/signup", async (req, res) => {
     const { email, password } = req.body;
@@ -206,140 +503,67 @@ async function fetchRealTrends(keyword: string) {
   }
 }
 
-// --- Advanced Metadata Extractors ---
-
-async function extractYouTubeData(url: string) {
-  try {
-    const videoIdMatch = url.match(/(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/);
-    const videoId = videoIdMatch ? videoIdMatch[1] : null;
-    if (!videoId) return null;
-
-    console.log(`Processing YouTube Video: ${videoId}`);
-
-    const youtube = google.youtube({
-      version: 'v3',
-      auth: process.env.YOUTUBE_API_KEY
-    });
-
-    // 1. Fetch Transcript
-    let transcriptText = "";
-    try {
-      const transcript = await YoutubeTranscript.fetchTranscript(videoId);
-      transcriptText = transcript.map(t => t.text).join(" ");
-    } catch (e) {
-      console.log("Transcript unavailable:", e);
-    }
-
-    // 2. Fetch Metadata via YouTube API
-    let videoSnippet: any = null;
-    let tags: string[] = [];
-    try {
-      const videoResponse = await youtube.videos.list({
-        part: ['snippet', 'contentDetails', 'statistics'],
-        id: [videoId]
-      });
-      videoSnippet = videoResponse.data.items?.[0]?.snippet;
-      tags = videoSnippet?.tags || [];
-    } catch (e) {
-      console.error("YouTube API failed, falling back to oEmbed", e);
-      const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
-      const { data: oembedData } = await axios.get(oembedUrl);
-      videoSnippet = {
-        title: oembedData.title,
-        description: "",
-        thumbnails: { high: { url: oembedData.thumbnail_url } }
-      };
-    }
-
-    // 3. Summarize with Gemini
-    let enhancedDescription = videoSnippet.description || "";
-    
-    if (transcriptText) {
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || "" });
-        const model = "gemini-3-flash-preview";
-        const result = await ai.models.generateContent({
-          model,
-          contents: `Act as a Pinterest content strategist. Summarize this video transcript in 3-4 concise, value-packed sentences suitable for a Pinterest description. Focus on the key tips, "how-to" aspects, and viral hooks. 
-          
-          Transcript: ${transcriptText.substring(0, 10000)}`
-        });
-        enhancedDescription = `SUMMARY: ${result.text}\n\nORIGINAL DESCRIPTION: ${videoSnippet.description}`;
-      } catch (e) {
-        console.error("Summary generation failed", e);
-      }
-    }
-
-    return {
-      title: videoSnippet.title,
-      description: enhancedDescription,
-      image: videoSnippet.thumbnails?.high?.url || videoSnippet.thumbnails?.default?.url,
-      tags: tags
-    };
-  } catch (e) {
-    console.error("YouTube extraction error:", e);
-    return null;
-  }
+// Cache check, then the extractor registry (platform extractors before the generic
+// Open Graph fallback). Throws when nothing usable was found.
+async function extractMetadata(url: string, refresh = false) {
+  const content = await extractWithCache(db, url, refresh);
+  return { ...content, image: content.images[0] || "" };
 }
 
-async function extractInstagramData(url: string) {
-  try {
-    console.log(`Processing Instagram URL: ${url}`);
-    
-    // Strategy 1: OEmbed (Works for public posts)
-    try {
-      const oembedUrl = `https://api.instagram.com/oembed?url=${encodeURIComponent(url)}&omitscript=true`;
-      const { data } = await axios.get(oembedUrl);
-      return {
-        title: data.title || "Instagram Post",
-        description: data.title || "Check out this post on Instagram",
-        image: data.thumbnail_url
-      };
-    } catch (e) {
-       console.log("IG OEmbed failed");
-    }
-
-    // Strategy 2: Scrape with specific headers
-    const response = await axios.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0 Mobile/15E148 Safari/604.1',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      }
-    });
-    
-    const $ = cheerio.load(response.data);
-    const title = $("meta[property='og:title']").attr("content") || "";
-    const description = $("meta[property='og:description']").attr("content") || "";
-    const image = $("meta[property='og:image']").attr("content") || "";
-
-    if (title || image) {
-      return { title, description, image };
-    }
-
-    return null;
-  } catch (e) {
-    console.error("Instagram extraction error:", e);
-    return null;
+function describeExtractionError(error: any) {
+  const status = error.status ?? error.response?.status;
+  if (error.code === 'ECONNABORTED' || error.code === 'TIMEOUT') {
+    return "The request timed out. The site might be slow or unreachable.";
+  } else if (status === 403 || status === 401) {
+    return "Access denied. This site might be blocking automated requests.";
+  } else if (status === 404) {
+    return "The page was not found. Please check the URL.";
+  } else if (error.code === 'BLOCKED_HOST' || error.code === 'BAD_PROTOCOL') {
+    return "That address can't be fetched. Use a public http(s) link.";
+  } else if (error.code === 'ROBOTS_DISALLOWED') {
+    return "This site's robots.txt asks automated tools not to read this page.";
+  } else if (error.code === 'ROBOTS_UNAVAILABLE') {
+    return "We couldn't check this site's robots.txt right now. Try again in a minute.";
+  } else if (error.code === 'RATE_LIMITED') {
+    return `This site is limiting requests right now. Try again in ${error.retryAfter ?? 60} seconds.`;
+  } else if (error.code === 'TOO_LARGE') {
+    return "The page is too large to process.";
+  } else if (error.code === 'UNSUPPORTED_CONTENT') {
+    return "That link doesn't point to a web page.";
   }
+  return "We couldn't automatically fetch the details.";
 }
 
-async function extractTikTokData(url: string) {
-  try {
-    console.log(`Processing TikTok URL: ${url}`);
-    // TikTok OEmbed
-    const oembedUrl = `https://www.tiktok.com/oembed?url=${encodeURIComponent(url)}`;
-    const { data } = await axios.get(oembedUrl);
-    
-    return {
-      title: data.title || "TikTok Video",
-      description: data.title || "Watch this video on TikTok",
-      image: data.thumbnail_url
-    };
-  } catch (e) {
-    console.error("TikTok extraction error:", e);
-    return null;
-  }
-}
+  // What the model must return for a keyword, with or without Google Trends data to build on
+  const TREND_ENRICHMENT_SCHEMA: JsonSchema = {
+    type: "object",
+    properties: {
+      category: { type: "string", minLength: 1, maxLength: 60 },
+      pinterest_volume: { type: "integer", minimum: 0 },
+      pinterest_related: { type: "array", maxItems: 10, items: { type: "string", minLength: 1, maxLength: 80 } },
+    },
+    required: ["category", "pinterest_volume", "pinterest_related"],
+  };
+  const TREND_ESTIMATE_SCHEMA: JsonSchema = {
+    type: "object",
+    properties: {
+      momentum_score: { type: "number", minimum: 0, maximum: 100 },
+      search_volume: { type: "integer", minimum: 0 },
+      category: { type: "string", minLength: 1, maxLength: 60 },
+      related: { type: "array", minItems: 1, maxItems: 10, items: { type: "string", minLength: 1, maxLength: 80 } },
+      history: {
+        type: "array",
+        minItems: 7,
+        maxItems: 7,
+        items: {
+          type: "object",
+          properties: { date: { type: "string", minLength: 1 }, value: { type: "number", minimum: 0, maximum: 100 } },
+          required: ["date", "value"],
+        },
+      },
+    },
+    required: ["momentum_score", "search_volume", "category", "related", "history"],
+  };
 
   app.get("/api/trending/search", async (req, res) => {
     const q = req.query.q as string;
@@ -362,11 +586,8 @@ async function extractTikTokData(url: string) {
     // 2. Try fetching real data first
     let realData = await fetchRealTrends(q);
     
-    // 3. Use Gemini for enrichment (or full fallback)
+    // 3. Use the model for enrichment (or full fallback)
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || "" });
-      const model = "gemini-3-flash-preview";
-      
       // Adjust prompt based on whether we have real data
       const prompt = realData 
         ? `Act as a Pinterest Trends expert. I have Google Trends data for "${q}": Momentum ${realData.momentum_score}, Related: ${realData.related.join(", ")}.
@@ -384,15 +605,14 @@ async function extractTikTokData(url: string) {
            - 7 data points for a historical trend graph (last 7 days), each point being { "date": string, "value": number }.
            Return ONLY a raw JSON object: { "momentum_score": number, "search_volume": number, "category": string, "related": string[], "history": Array<{date: string, value: number}> }`;
 
-      const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
+      const estimate = await generateStructured<any>({
+        prompt,
+        schema: realData ? TREND_ENRICHMENT_SCHEMA : TREND_ESTIMATE_SCHEMA,
+        // Google's numbers stand on their own; a made-up estimate that never validates does not
+        fallback: realData ? { category: "General", pinterest_volume: realData.search_volume, pinterest_related: [] } : null,
       });
-
-      let text = response.text || "{}";
-      text = text.replace(/```json/g, "").replace(/```/g, "").trim();
-      const aiData = JSON.parse(text);
+      if (!estimate.value) throw new Error("The model's trend estimate failed validation");
+      const aiData = estimate.value;
       
       // Merge data
       const finalData = {
@@ -405,8 +625,8 @@ async function extractTikTokData(url: string) {
 
       // 4. Store in DB
       db.prepare(`
-        INSERT OR REPLACE INTO trending_keywords (keyword, source, category, momentum_score, search_volume, related_keywords, historical_data, last_updated)
-        VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        INSERT OR REPLACE INTO trending_keywords (keyword, source, category, momentum_score, search_volume, related_keywords, historical_data, ai_origin, last_updated)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       `).run(
         q, 
         realData ? "Google Trends + AI" : "Trends AI", 
@@ -414,7 +634,8 @@ async function extractTikTokData(url: string) {
         finalData.momentum_score, 
         finalData.search_volume, 
         JSON.stringify(finalData.related),
-        JSON.stringify(finalData.history)
+        JSON.stringify(finalData.history),
+        estimate.origin
       );
 
       const result = db.prepare("SELECT * FROM trending_keywords WHERE keyword = ?").get(q) as any;
@@ -444,14 +665,15 @@ async function extractTikTokData(url: string) {
         momentum_score: 72,
         search_volume: 12500,
         related_keywords: [`${q} ideas`, `${q} aesthetic`, `best ${q}`, `${q} diy`, `${q} trends`],
-        historical_data: mockHistory
+        historical_data: mockHistory,
+        ai_origin: "fallback"
       };
 
       // Store fallback data to prevent immediate retries
       try {
         db.prepare(`
-          INSERT OR REPLACE INTO trending_keywords (keyword, source, category, momentum_score, search_volume, related_keywords, historical_data, last_updated)
-          VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+          INSERT OR REPLACE INTO trending_keywords (keyword, source, category, momentum_score, search_volume, related_keywords, historical_data, ai_origin, last_updated)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
         `).run(
           q, 
           "Fallback", 
@@ -459,7 +681,8 @@ async function extractTikTokData(url: string) {
           fallbackData.momentum_score, 
           fallbackData.search_volume, 
           JSON.stringify(fallbackData.related_keywords),
-          JSON.stringify(fallbackData.historical_data)
+          JSON.stringify(fallbackData.historical_data),
+          fallbackData.ai_origin
         );
       } catch (dbError) {
         console.error("DB Save failed:", dbError);
@@ -470,12 +693,10 @@ async function extractTikTokData(url: string) {
   });
 
   // Pinterest OAuth
-  app.get("/api/auth/url", (req, res) => {
-    const clientId = process.env.PINTEREST_CLIENT_ID || "SnapChefAi";
-    
-    // CRITICAL FIX: Use the runtime APP_URL environment variable provided by the platform.
-    // This ensures the callback URL matches the actual container URL, not localhost.
-    // If APP_URL is missing (local dev), fallback to request host.
+  // CRITICAL FIX: Use the runtime APP_URL environment variable provided by the platform.
+  // This ensures the callback URL matches the actual container URL, not localhost.
+  // If APP_URL is missing (local dev), fallback to request host.
+  const getAppUrl = (req: any) => {
     let appUrl = process.env.APP_URL;
     
     if (!appUrl) {
@@ -485,230 +706,1083 @@ async function extractTikTokData(url: string) {
     }
     
     // Remove trailing slash if present
-    appUrl = appUrl.replace(/\/$/, "");
-    
-    const redirectUri = `${appUrl}/auth/callback`;
+    return appUrl.replace(/\/$/, "");
+  };
+
+  const getRedirectUri = (req: any) => `${getAppUrl(req)}/auth/callback`;
+
+  app.get("/api/auth/url", authenticate, (req: any, res) => {
+    const clientId = process.env.PINTEREST_CLIENT_ID || "SnapChefAi";
+    const redirectUri = getRedirectUri(req);
     
     console.log("Generating OAuth URL with redirect_uri:", redirectUri);
 
+    // Single-use state bound to this session, plus a PKCE challenge for the code exchange
+    const { state, codeChallenge } = createOAuthState(db, JWT_SECRET, req.userId, req.authToken);
+
     const params = new URLSearchParams({
       client_id: clientId,
       redirect_uri: redirectUri,
       response_type: "code",
       scope: "boards:read,pins:read,pins:write",
-      // state: "optional_state_string" // Good practice to add state for security
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
     });
 
     const authUrl = `https://www.pinterest.com/oauth/?${params.toString()}`;
     res.json({ url: authUrl });
   });
 
-  app.get("/auth/callback", (req, res) => {
-    const { code } = req.query;
+  app.get("/auth/callback", async (req, res) => {
+    const { code, state, error } = req.query;
     const token = req.cookies.token;
     
-    if (token) {
-      try {
-        const decoded = jwt.verify(token, JWT_SECRET) as any;
-        const userId = decoded.userId;
-        
-        // Simulate exchanging code for token and saving it
-        db.prepare("UPDATE users SET pinterest_token = ? WHERE id = ?").run("mock_pinterest_token", userId);
+    if (!token) return res.status(401).send("Unauthorized");
+
+    let userId: number;
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      userId = decoded.userId;
+    } catch (e) {
+      return res.status(401).send("Unauthorized");
+    }
+
+    if (typeof state !== "string" || !state) {
+      return res.status(400).send("Missing OAuth state. Please start the connection again.");
+    }
+
+    // Consumed even when Pinterest reports an error, so the state can never be replayed
+    const codeVerifier = consumeOAuthState(db, JWT_SECRET, state, userId, token);
+    if (!codeVerifier) {
+      return res.status(400).send("Invalid or expired OAuth state. Please start the connection again.");
+    }
+
+    if (error || typeof code !== "string" || !code) {
+      return res.status(400).send("Pinterest authorization was denied or no code was returned.");
+    }
+
+    try {
+      const tokens = await exchangeCodeForTokens(code, getRedirectUri(req), codeVerifier);
+      saveTokens(db, userId, tokens);
+      // A reconnect may be a different Pinterest account
+      db.prepare("DELETE FROM board_cache WHERE user_id = ?").run(userId);
+    } catch (e: any) {
+      console.error("Pinterest token exchange failed:", e.message);
+      const status = e instanceof PinterestError ? e.status : 500;
+      return res.status(status).send("Failed to connect your Pinterest account. Please try again.");
+    }
         
-        res.send(`
-          <html>
-            <body>
-              <script>
-                if (window.opener) {
-                  window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS', code: '${code}' }, '*');
-                  window.close();
-                } else {
-                  window.location.href = '/';
-                }
-              </script>
-              <p>Authentication successful. This window should close automatically.</p>
-            </body>
-          </html>
-        `);
-      } catch (e) {
-        res.status(401).send("Unauthorized");
+    res.send(`
+      <html>
+        <body>
+          <script>
+            if (window.opener) {
+              window.opener.postMessage({ type: 'OAUTH_AUTH_SUCCESS' }, window.location.origin);
+              window.close();
+            } else {
+              window.location.href = '/';
+            }
+          </script>
+          <p>Authentication successful. This window should close automatically.</p>
+        </body>
+      </html>
+    `);
+  });
+
+  // Pinterest Boards
+  const BOARD_CACHE_TTL = "-1 hour";
+
+  app.get("/api/boards", authenticate, async (req: any, res) => {
+    if (req.query.refresh !== "1") {
+      const cached = db.prepare("SELECT boards FROM board_cache WHERE user_id = ? AND cached_at > datetime('now', ?)").get(req.userId, BOARD_CACHE_TTL) as any;
+      if (cached) return res.json(JSON.parse(cached.boards));
+    }
+
+    try {
+      const accessToken = await getValidAccessToken(db, req.userId);
+      const boards = await listBoards(accessToken);
+      db.prepare("INSERT OR REPLACE INTO board_cache (user_id, boards, cached_at) VALUES (?, ?, CURRENT_TIMESTAMP)")
+        .run(req.userId, JSON.stringify(boards));
+      res.json(boards);
+    } catch (error: any) {
+      if (error instanceof PinterestError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
       }
-    } else {
-      res.status(401).send("Unauthorized");
+      console.error("Board listing failed:", error);
+      res.status(500).json({ error: "Failed to load boards" });
     }
   });
 
-  // Pin Management
-  app.get("/api/pins", (req, res) => {
-    const pins = db.prepare("SELECT * FROM generated_pins ORDER BY created_at DESC").all();
-    res.json(pins);
+  // Default boards: a pin from a matching source domain or trend category lands on this board
+  // unless one is chosen explicitly. Domain rules win over category rules.
+  const normalizeDomain = (value: string) => {
+    try {
+      return new URL(value.includes("://") ? value : `https://${value}`).hostname.replace(/^www\./, "").toLowerCase();
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const resolveDefaultBoard = (userId: number, sourceUrl?: string, category?: string) => {
+    const domain = sourceUrl ? normalizeDomain(sourceUrl) : null;
+    return db.prepare(`
+      SELECT board_id, board_section_id FROM board_defaults
+      WHERE user_id = ? AND ((match_type = 'domain' AND match_value = ?) OR (match_type = 'category' AND match_value = ?))
+      ORDER BY match_type = 'domain' DESC LIMIT 1
+    `).get(userId, domain, category?.trim() || null) as { board_id: string; board_section_id: string | null } | undefined;
+  };
+
+  app.get("/api/boards/defaults", authenticate, (req: any, res) => {
+    const rules = db.prepare("SELECT * FROM board_defaults WHERE user_id = ? ORDER BY match_type, match_value").all(req.userId);
+    res.json(rules);
   });
 
-  app.post("/api/pins", (req, res) => {
-    const { source_url, title, description, image_url, status } = req.body;
-    const result = db.prepare(
-      "INSERT INTO generated_pins (source_url, title, description, image_url, status) VALUES (?, ?, ?, ?, ?)"
-    ).run(source_url, title, description, image_url, status || 'draft');
-    res.json({ id: result.lastInsertRowid });
+  app.get("/api/boards/defaults/resolve", authenticate, (req: any, res) => {
+    const match = resolveDefaultBoard(req.userId, req.query.source_url as string, req.query.category as string);
+    res.json(match || { board_id: null, board_section_id: null });
   });
 
-  app.patch("/api/pins/:id", (req, res) => {
-    const { id } = req.params;
-    const { status } = req.body;
-    db.prepare("UPDATE generated_pins SET status = ? WHERE id = ?").run(status, id);
+  app.put("/api/boards/defaults", authenticate, (req: any, res) => {
+    const { match_type, board_id, board_section_id } = req.body;
+    if (match_type !== "domain" && match_type !== "category") {
+      return res.status(400).json({ error: "match_type must be 'domain' or 'category'" });
+    }
+    const match_value = match_type === "domain" ? normalizeDomain(req.body.match_value || "") : (req.body.match_value || "").trim();
+    if (!match_value) return res.status(400).json({ error: "A domain or category is required" });
+    if (!board_id) return res.status(400).json({ error: "Board required" });
+
+    db.prepare(`
+      INSERT INTO board_defaults (user_id, match_type, match_value, board_id, board_section_id) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, match_type, match_value) DO UPDATE SET board_id = excluded.board_id, board_section_id = excluded.board_section_id
+    `).run(req.userId, match_type, match_value, board_id, board_section_id || null);
     res.json({ success: true });
   });
 
-  app.get("/api/pins/:id/download", (req, res) => {
-    const { id } = req.params;
-    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ?").get(id) as any;
-    if (!pin || !pin.image_url) return res.status(404).send("Pin not found");
+  app.delete("/api/boards/defaults/:id", authenticate, (req: any, res) => {
+    const result = db.prepare("DELETE FROM board_defaults WHERE id = ? AND user_id = ?").run(req.params.id, req.userId);
+    if (result.changes === 0) return res.status(404).json({ error: "Default board not found" });
+    res.json({ success: true });
+  });
 
-    // In a real app, we'd fetch from S3. Here we just redirect to the data URL or external URL
-    // But for a "download" we might want to proxy it to set headers
-    res.redirect(pin.image_url);
+  // Link rules: query parameters (UTM tags, affiliate ids) added to every new pin's destination link
+  app.get("/api/links/rules", authenticate, (req: any, res) => {
+    const rules = db.prepare("SELECT * FROM link_rules WHERE user_id = ? ORDER BY match_value = ? DESC, match_value, param").all(req.userId, ALL_DOMAINS);
+    res.json(rules);
   });
 
-  app.post("/api/pins/publish", authenticate, async (req: any, res) => {
-    const { title, description, image_url, board_id } = req.body;
-    
-    const user = db.prepare("SELECT * FROM users WHERE id = ?").get(req.userId) as any;
-    if (!user || !user.pinterest_token) {
-      return res.status(401).json({ error: "Pinterest account not connected", code: "AUTH_REQUIRED" });
+  app.put("/api/links/rules", authenticate, (req: any, res) => {
+    const upsert = db.prepare(`
+      INSERT INTO link_rules (user_id, match_value, param, value) VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, match_value, param) DO UPDATE SET value = excluded.value
+    `);
+
+    // The UTM preset only fills in parameters the user hasn't configured yet
+    if (req.body.preset === "utm") {
+      const existing = db.prepare("SELECT 1 FROM link_rules WHERE user_id = ? AND match_value = ? AND param = ?");
+      db.transaction(() => {
+        for (const [param, value] of Object.entries(DEFAULT_UTM_RULES)) {
+          if (!existing.get(req.userId, ALL_DOMAINS, param)) upsert.run(req.userId, ALL_DOMAINS, param, value);
+        }
+      })();
+      return res.json({ success: true });
     }
 
-    // Simulate Pinterest API call
-    console.log("Publishing to Pinterest for user:", user.email, { title, board_id });
-    
-    // Artificial delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
+    const { param, value } = req.body;
+    const rawMatch = (req.body.match_value || "").trim();
+    const match_value = !rawMatch || rawMatch === ALL_DOMAINS ? ALL_DOMAINS : normalizeDomain(rawMatch);
+    if (!match_value) return res.status(400).json({ error: "Enter a domain, or leave it empty for all links" });
+    if (typeof param !== "string" || !/^[\w.-]{1,64}$/.test(param)) return res.status(400).json({ error: "Invalid parameter name" });
+    if (typeof value !== "string" || !value.trim()) return res.status(400).json({ error: "A value is required" });
+
+    upsert.run(req.userId, match_value, param, value.trim());
+    res.json({ success: true });
+  });
+
+  app.delete("/api/links/rules/:id", authenticate, (req: any, res) => {
+    const result = db.prepare("DELETE FROM link_rules WHERE id = ? AND user_id = ?").run(req.params.id, req.userId);
+    if (result.changes === 0) return res.status(404).json({ error: "Link rule not found" });
+    res.json({ success: true });
+  });
+
+  // Previews the tagged destination link for a generated variation before it is saved
+  app.post("/api/links/build", authenticate, (req: any, res) => {
+    const { url, keyword, variant } = req.body;
+    if (typeof url !== "string" || !url) return res.status(400).json({ error: "URL required" });
+    const link = applyLinkRules(db, req.userId, url, { keyword, variant: Number(variant) || null });
+    res.json({ link, valid: isValidLink(link) });
+  });
 
-    // Simulate random rate limit (5% chance)
-    if (Math.random() > 0.95) {
-      return res.status(429).json({ error: "Rate limit exceeded – try again later", code: "RATE_LIMIT" });
+  // Assets
+  // Ids are content hashes, so the bytes behind a URL never change and can be cached forever.
+  app.post("/api/assets", authenticate, express.raw({ type: "image/*", limit: MAX_ASSET_BYTES }), async (req: any, res) => {
+    if (!Buffer.isBuffer(req.body)) return res.status(415).json({ error: "Send the image bytes with an image/* Content-Type" });
+    try {
+      const asset = await storeAsset(db, assetStorage, req.body, req.userId);
+      res.json({ ...asset, url: assetUrl(asset.id) });
+    } catch (error: any) {
+      if (error instanceof AssetError) return res.status(error.status).json({ error: error.message });
+      console.error("Asset upload failed:", error);
+      res.status(500).json({ error: "Failed to store image" });
     }
+  });
 
-    // Simulate random token expiration (5% chance)
-    if (Math.random() > 0.95) {
-      // Clear token in DB to simulate expiration
-      db.prepare("UPDATE users SET pinterest_token = NULL WHERE id = ?").run(req.userId);
-      return res.status(401).json({ error: "Authentication expired – please reconnect your Pinterest account", code: "AUTH_EXPIRED" });
+  app.post("/api/assets/import", authenticate, async (req: any, res) => {
+    const { url } = req.body;
+    if (typeof url !== "string" || !validator.isURL(url, { require_protocol: true, protocols: ["http", "https"] })) {
+      return res.status(400).json({ error: "A valid image URL is required" });
+    }
+    try {
+      const asset = await importAsset(db, assetStorage, url, req.userId);
+      res.json({ ...asset, url: assetUrl(asset.id) });
+    } catch (error: any) {
+      if (error instanceof AssetError) return res.status(error.status).json({ error: error.message });
+      console.error("Asset import failed:", error);
+      res.status(500).json({ error: "Failed to store image" });
+    }
+  });
+
+  // Photos or a PDF as the source of a pin set: photos are stored as assets for use as pin
+  // images, and the model describes the files in place of an extracted page
+  const sourceUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_UPLOAD_FILES } }).array("files", MAX_UPLOAD_FILES);
+
+  app.post("/api/sources/upload", authenticate, (req: any, res) => {
+    // Checked before multer reads anything; Node won't read past the declared length
+    const length = Number(req.headers["content-length"]);
+    if (!req.headers["content-length"] || !Number.isFinite(length)) return res.status(411).json({ error: "Content-Length is required" });
+    if (length > MAX_UPLOAD_TOTAL_BYTES) {
+      return res.status(413).json({ error: `Uploads can be at most ${MAX_UPLOAD_TOTAL_BYTES / 1024 / 1024}MB in total` });
     }
 
-    res.json({ 
-      success: true, 
-      pin_url: "https://www.pinterest.com/pin/mock-id/",
-      message: "Pin published successfully!" 
+    sourceUpload(req, res, async (uploadError: any) => {
+      if (uploadError) {
+        const tooLarge = uploadError.code === "LIMIT_FILE_SIZE";
+        return res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? `Each file can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`
+            : uploadError.code === "LIMIT_FILE_COUNT" || uploadError.code === "LIMIT_UNEXPECTED_FILE" ? `Upload at most ${MAX_UPLOAD_FILES} files at once`
+            : "Upload failed"
+        });
+      }
+
+      try {
+        const uploads = validateUploads(req.files || []);
+        const images = uploads.filter(upload => upload.content_type !== "application/pdf");
+        const assets = await Promise.all(images.map(upload => storeAsset(db, assetStorage, upload.data, req.userId)));
+        const source = {
+          image: assets[0] ? assetUrl(assets[0].id) : "",
+          // The same photo uploaded twice is one asset
+          images: [...new Set(assets.map(asset => assetUrl(asset.id)))],
+          content_type: images.length > 0 ? "image" : "document",
+          structured: null,
+          chapters: [],
+          file_names: uploads.map(upload => upload.name),
+        };
+
+        // The files are still usable without a description; the user writes the copy themselves
+        const warning = "Your files were uploaded.";
+        try {
+          const description = await describeUploads(uploads);
+          res.json({ ...source, ...description, ...(description.origin === "fallback" ? { warning } : {}) });
+        } catch (error: any) {
+          console.error("Upload description failed:", error);
+          if (error instanceof UploadError) throw error;
+          res.json({ ...source, title: "", description: "", tags: [], origin: "fallback", warning });
+        }
+      } catch (error: any) {
+        if (error instanceof UploadError || error instanceof AssetError) return res.status(error.status).json({ error: error.message });
+        console.error("Source upload failed:", error);
+        res.status(500).json({ error: "Failed to process the upload" });
+      }
     });
   });
 
-  app.post("/api/extract-metadata", async (req, res) => {
-    const { url } = req.body;
+  const sendAsset = async (req: any, res: any, id: string, filename?: string) => {
+    if (req.headers["if-none-match"] === `"${id}"`) return res.status(304).end();
+
+    const asset = await loadAsset(db, assetStorage, id);
+    if (!asset) return res.status(404).send("Asset not found");
+
+    res.set({
+      "Content-Type": asset.content_type,
+      "Content-Length": String(asset.data.length),
+      "Content-Disposition": filename
+        ? `attachment; filename="${filename}.${assetExtension(asset.content_type)}"`
+        : `inline; filename="${id}.${assetExtension(asset.content_type)}"`,
+      "Cache-Control": filename ? "private, no-cache" : "public, max-age=31536000, immutable",
+      "ETag": `"${id}"`,
+      "X-Content-Type-Options": "nosniff",
+    });
+    res.send(asset.data);
+  };
 
-    // 1. URL Validation
-    if (!url || !validator.isURL(url, { require_protocol: true })) {
-      return res.status(400).json({ error: "Please enter a valid URL (including http:// or https://)." });
+  app.get("/api/assets/:id", async (req, res) => {
+    if (!isAssetId(req.params.id)) return res.status(404).send("Asset not found");
+    try {
+      await sendAsset(req, res, req.params.id);
+    } catch (error) {
+      console.error("Asset read failed:", error);
+      res.status(500).send("Failed to read asset");
+    }
+  });
+
+  // Pin Management
+  // Every pin query is scoped to the caller; pins owned by someone else behave as if they don't exist.
+  app.get("/api/pins", authenticate, (req: any, res) => {
+    const pins = db.prepare("SELECT * FROM generated_pins WHERE user_id = ? ORDER BY created_at DESC").all(req.userId);
+    res.json(pins.map(serializePin));
+  });
+
+  app.post("/api/pins", authenticate, (req: any, res) => {
+    const { source_url, title, description, status, category, asset_id, keyword, variant } = req.body;
+    if (status !== undefined && status !== "draft") {
+      return res.status(400).json({ error: PIN_STATUSES.includes(status) ? STATUS_ROUTE_ERROR : "Unknown status" });
+    }
+    let { board_id, board_section_id } = req.body;
+    // An explicit link is stored as given; otherwise the source URL goes through the link rules
+    const link = "link" in req.body
+      ? req.body.link || null
+      : source_url ? applyLinkRules(db, req.userId, source_url, { keyword, variant }) : null;
+    if (link && !isValidLink(link)) {
+      return res.status(400).json({ error: "Destination link must be a valid http(s) URL" });
+    }
+    const image_url = asset_id ? null : req.body.image_url || null;
+    if (asset_id && !userOwnsAsset(db, asset_id, req.userId)) {
+      return res.status(400).json({ error: "Unknown asset" });
+    }
+    if (image_url && !validator.isURL(image_url, { require_protocol: true, protocols: ["http", "https"] })) {
+      return res.status(400).json({ error: "Upload images to /api/assets and pass asset_id" });
     }
+    if (!board_id) {
+      const fallback = resolveDefaultBoard(req.userId, source_url, category);
+      board_id = fallback?.board_id;
+      board_section_id = fallback?.board_section_id;
+    }
+    const id = createPinRecord(req.userId, { source_url, title, description, image_url, asset_id, status, board_id, board_section_id, link });
+    res.json({ id });
+  });
 
-    // 2. Cache Check
-    const cached = db.prepare("SELECT * FROM metadata_cache WHERE url = ? AND cached_at > datetime('now', '-24 hours')").get(url) as any;
-    if (cached) {
-      console.log(`Cache hit for ${url}`);
-      return res.json({ title: cached.title, description: cached.description, image: cached.image, from_cache: true });
+  app.patch("/api/pins/:id", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+    if (pin.status === 'publishing') return res.status(409).json({ error: "Pin is being published right now" });
+
+    const {
+      status = pin.status,
+      board_id = pin.board_id,
+      title = pin.title,
+      description = pin.description,
+      asset_id = pin.asset_id,
+    } = req.body;
+    const link = "link" in req.body ? req.body.link || null : pin.link;
+    // Changing the board drops the section unless a new one comes with it
+    const board_section_id = "board_section_id" in req.body || board_id !== pin.board_id
+      ? req.body.board_section_id || null
+      : pin.board_section_id;
+    // A new asset replaces any external image; an external image alone clears the asset
+    const image_url = "asset_id" in req.body ? null : ("image_url" in req.body ? req.body.image_url : pin.image_url);
+    const nextAssetId = "image_url" in req.body && !("asset_id" in req.body) ? null : asset_id;
+
+    if (!PIN_STATUSES.includes(status)) return res.status(400).json({ error: "Unknown status" });
+    if (status !== pin.status && status !== "draft") return res.status(400).json({ error: STATUS_ROUTE_ERROR });
+    // Back to draft takes the pin off the schedule
+    const scheduled_at = status === "draft" ? null : pin.scheduled_at;
+    if (nextAssetId && nextAssetId !== pin.asset_id && !userOwnsAsset(db, nextAssetId, req.userId)) {
+      return res.status(400).json({ error: "Unknown asset" });
+    }
+    if (image_url && image_url !== pin.image_url && !validator.isURL(image_url, { require_protocol: true, protocols: ["http", "https"] })) {
+      return res.status(400).json({ error: "Upload images to /api/assets and pass asset_id" });
     }
+    if (link && link !== pin.link && !isValidLink(link)) {
+      return res.status(400).json({ error: "Destination link must be a valid http(s) URL" });
+    }
+
+    const contentChanged = title !== pin.title || description !== pin.description
+      || nextAssetId !== pin.asset_id || image_url !== pin.image_url;
+    const changeType = REVISION_CHANGE_TYPES.includes(req.body.change_type) ? req.body.change_type : "edit";
+
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE generated_pins
+        SET status = ?, scheduled_at = ?, board_id = ?, board_section_id = ?, title = ?, description = ?, asset_id = ?, image_url = ?, link = ?
+        WHERE id = ?
+      `).run(status, scheduled_at, board_id, board_section_id, title, description, nextAssetId, image_url, link, id);
+      if (contentChanged) recordRevision(pin.id, changeType, req.body.note || null);
+    })();
+    res.json(serializePin(db.prepare("SELECT * FROM generated_pins WHERE id = ?").get(id)));
+  });
+
+  app.delete("/api/pins/:id", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+    if (pin.status === 'publishing') return res.status(409).json({ error: "Pin is being published right now" });
+
+    // Asset bytes stay in the store: other pins and revisions may share the same content hash
+    db.transaction(() => {
+      db.prepare("DELETE FROM pin_revisions WHERE pin_id = ?").run(id);
+      db.prepare("DELETE FROM publish_attempts WHERE pin_id = ?").run(id);
+      db.prepare("DELETE FROM generated_pins WHERE id = ?").run(id);
+    })();
+    res.json({ success: true });
+  });
+
+  app.post("/api/pins/:id/duplicate", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+
+    const copy = db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO generated_pins (user_id, source_url, title, description, image_url, asset_id, status, board_id, board_section_id, link)
+        VALUES (?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?)
+      `).run(req.userId, pin.source_url, pin.title, pin.description, pin.image_url, pin.asset_id, pin.board_id, pin.board_section_id, pin.link);
+      recordRevision(result.lastInsertRowid, "duplicate", `Copied from pin #${pin.id}`);
+      return db.prepare("SELECT * FROM generated_pins WHERE id = ?").get(result.lastInsertRowid);
+    })();
+    res.json(serializePin(copy));
+  });
+
+  app.get("/api/pins/:id/revisions", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const pin = db.prepare("SELECT id FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId);
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+
+    const revisions = db.prepare("SELECT * FROM pin_revisions WHERE pin_id = ? ORDER BY revision DESC").all(id);
+    res.json(revisions.map(serializePin));
+  });
+
+  app.post("/api/pins/:id/revisions/:revision/restore", authenticate, (req: any, res) => {
+    const { id, revision } = req.params;
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+    if (pin.status === 'publishing') return res.status(409).json({ error: "Pin is being published right now" });
+
+    const target = db.prepare("SELECT * FROM pin_revisions WHERE pin_id = ? AND revision = ?").get(id, revision) as any;
+    if (!target) return res.status(404).json({ error: "Revision not found" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE generated_pins SET title = ?, description = ?, image_url = ?, asset_id = ? WHERE id = ?")
+        .run(target.title, target.description, target.image_url, target.asset_id, id);
+      recordRevision(pin.id, "restore", `Restored revision ${target.revision}`);
+    })();
+    res.json(serializePin(db.prepare("SELECT * FROM generated_pins WHERE id = ?").get(id)));
+  });
 
-    console.log(`Extracting metadata for: ${url}`);
+  app.get("/api/pins/:id/download", authenticate, async (req: any, res) => {
+    const { id } = req.params;
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin || (!pin.asset_id && !pin.image_url)) return res.status(404).send("Pin not found");
 
+    // External images aren't ours to proxy
+    if (!pin.asset_id) return res.redirect(pin.image_url);
     try {
-      // 3. Platform-Specific Extractors
-      let metadata: any = null;
-
-      if (url.includes('youtube.com') || url.includes('youtu.be')) {
-        metadata = await extractYouTubeData(url);
-      } else if (url.includes('instagram.com')) {
-        metadata = await extractInstagramData(url);
-      } else if (url.includes('tiktok.com')) {
-        metadata = await extractTikTokData(url);
+      await sendAsset(req, res, pin.asset_id, `pin-${pin.id}`);
+    } catch (error) {
+      console.error("Asset read failed:", error);
+      res.status(500).send("Failed to read asset");
+    }
+  });
+
+  // Bulk export: a ZIP with a CSV in Pinterest's bulk-create layout plus the images themselves.
+  // Saved pins are picked by id; the unsaved generated set is sent inline after its images
+  // have been uploaded as assets, since Pinterest needs a public media URL for every row.
+  const MAX_EXPORT_PINS = 200;
+
+  app.post("/api/pins/export", authenticate, async (req: any, res) => {
+    const { pin_ids, pins: inlinePins } = req.body;
+    let pins: any[];
+    if (Array.isArray(pin_ids)) {
+      if (pin_ids.length === 0 || pin_ids.length > MAX_EXPORT_PINS) {
+        return res.status(400).json({ error: `Select between 1 and ${MAX_EXPORT_PINS} pins to export` });
+      }
+      const placeholders = pin_ids.map(() => "?").join(", ");
+      pins = db.prepare(`SELECT * FROM generated_pins WHERE user_id = ? AND id IN (${placeholders}) ORDER BY created_at DESC`)
+        .all(req.userId, ...pin_ids);
+    } else if (Array.isArray(inlinePins)) {
+      if (inlinePins.length === 0 || inlinePins.length > MAX_EXPORT_PINS) {
+        return res.status(400).json({ error: `Select between 1 and ${MAX_EXPORT_PINS} pins to export` });
+      }
+      if (inlinePins.some((pin: any) => typeof pin?.asset_id !== "string" || !userOwnsAsset(db, pin.asset_id, req.userId))) {
+        return res.status(400).json({ error: "Unknown asset" });
       }
+      pins = inlinePins;
+    } else {
+      return res.status(400).json({ error: "pin_ids or pins is required" });
+    }
+    if (pins.length === 0) return res.status(404).json({ error: "No pins found" });
 
-      // 4. Fallback to Generic Open Graph Extraction
-      if (!metadata) {
-        const response = await axios.get(url, {
-          headers: { 
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.9'
-          },
-          timeout: 10000 // 10 seconds timeout
+    // Pinterest matches boards by name; a stale cache still beats exporting raw ids
+    const cachedBoards = db.prepare("SELECT boards FROM board_cache WHERE user_id = ?").get(req.userId) as any;
+    const boardNames = new Map<string, string>(
+      (cachedBoards ? JSON.parse(cachedBoards.boards) : []).map((board: any) => [board.id, board.name])
+    );
+
+    try {
+      const JSZip = (await import("jszip")).default;
+      const zip = new JSZip();
+      const appUrl = getAppUrl(req);
+      const rows: BulkPinRow[] = [];
+
+      for (const [index, pin] of pins.entries()) {
+        // Inline pins carry whatever id the client gave them, so they're numbered by position instead
+        const fileName = `pin-${Array.isArray(pin_ids) ? Number(pin.id) : index + 1}`;
+        if (pin.asset_id) {
+          const asset = await loadOwnedAsset(db, assetStorage, pin.asset_id, req.userId);
+          if (asset) zip.file(`images/${fileName}.${assetExtension(asset.content_type)}`, asset.data);
+        }
+        rows.push({
+          title: pin.title || "",
+          description: pin.description || "",
+          link: pin.link ?? pin.source_url ?? "",
+          board: pin.board_id ? boardNames.get(pin.board_id) || pin.board_id : "",
+          media_url: pin.asset_id ? `${appUrl}${assetUrl(pin.asset_id)}` : pin.image_url || "",
+          // scheduled_at is stored as SQLite UTC without a zone marker
+          publish_date: pin.status === 'scheduled' && pin.scheduled_at ? `${pin.scheduled_at.replace(" ", "T")}Z` : null,
         });
-  
-        const $ = cheerio.load(response.data);
-        
-        metadata = {
-          title: $("meta[property='og:title']").attr("content") || 
-                 $("meta[name='twitter:title']").attr("content") || 
-                 $("title").text() || 
-                 "",
-          description: $("meta[property='og:description']").attr("content") || 
-                       $("meta[name='twitter:description']").attr("content") || 
-                       $("meta[name='description']").attr("content") || 
-                       $("p").first().text() || 
-                       "",
-          image: $("meta[property='og:image']").attr("content") || 
-                 $("meta[name='twitter:image']").attr("content") || 
-                 $("link[rel='image_src']").attr("href") || 
-                 "",
-        };
       }
 
-      // Clean up whitespace
-      if (metadata) {
-        metadata.title = (metadata.title || "").trim();
-        metadata.description = (metadata.description || "").trim().substring(0, 1000); // Increased limit for summaries
+      zip.file("pinterest-bulk-upload.csv", toBulkCsv(rows));
+      const content = await zip.generateAsync({ type: "nodebuffer" });
+      res.set({
+        "Content-Type": "application/zip",
+        "Content-Disposition": 'attachment; filename="pinviral-export.zip"',
+        "Cache-Control": "private, no-cache",
+      });
+      res.send(content);
+    } catch (error) {
+      console.error("Pin export failed:", error);
+      res.status(500).json({ error: "Failed to export pins" });
+    }
+  });
+
+  // Scheduled publishing: the publish worker picks these up once scheduled_at has passed
+  app.get("/api/pins/queue", authenticate, (req: any, res) => {
+    const queue = db.prepare(`
+      SELECT p.*,
+        (SELECT COUNT(*) FROM publish_attempts a WHERE a.pin_id = p.id) as attempt_count,
+        (SELECT a.error FROM publish_attempts a WHERE a.pin_id = p.id AND a.success = 0 ORDER BY a.id DESC LIMIT 1) as last_error
+      FROM generated_pins p
+      WHERE p.user_id = ? AND p.status IN ('scheduled', 'publishing', 'failed')
+      ORDER BY p.scheduled_at ASC
+    `).all(req.userId);
+    res.json(queue.map(serializePin));
+  });
+
+  app.post("/api/pins/:id/schedule", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const { scheduled_at } = req.body;
+
+    const when = new Date(scheduled_at);
+    if (!scheduled_at || isNaN(when.getTime())) return res.status(400).json({ error: "A valid scheduled_at time is required" });
+    if (when.getTime() < Date.now() - 60 * 1000) return res.status(400).json({ error: "Scheduled time must be in the future" });
+
+    const pin = db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(id, req.userId) as any;
+    if (!pin) return res.status(404).json({ error: "Pin not found" });
+
+    const board_id = req.body.board_id || pin.board_id;
+    const board_section_id = req.body.board_id ? req.body.board_section_id || null : pin.board_section_id;
+    if (!board_id) return res.status(400).json({ error: "Board required" });
+    if (pin.status === 'published' || pin.status === 'publishing') {
+      return res.status(409).json({ error: "Pin is already published" });
+    }
+    if (!pin.asset_id && !pin.image_url) return res.status(400).json({ error: "Pin has no image" });
+
+    db.prepare("UPDATE generated_pins SET status = 'scheduled', scheduled_at = datetime(?), board_id = ?, board_section_id = ?, retry_count = 0 WHERE id = ?")
+      .run(when.toISOString(), board_id, board_section_id, id);
+    res.json({ success: true, scheduled_at: when.toISOString() });
+  });
+
+  app.delete("/api/pins/:id/schedule", authenticate, (req: any, res) => {
+    const { id } = req.params;
+    const result = db.prepare(`
+      UPDATE generated_pins SET status = 'draft', scheduled_at = NULL
+      WHERE id = ? AND user_id = ? AND status IN ('scheduled', 'failed')
+    `).run(id, req.userId);
+    if (result.changes === 0) return res.status(404).json({ error: "No scheduled pin found" });
+    res.json({ success: true });
+  });
+
+  // With pin_id, the saved pin is marked published with its Pinterest id once the publish succeeds
+  app.post("/api/pins/publish", authenticate, async (req: any, res) => {
+    const { title, description, image_url, asset_id, board_id, board_section_id, link, pin_id } = req.body;
+    if (!asset_id && !image_url) return res.status(400).json({ error: "Image required" });
+    if (!board_id) return res.status(400).json({ error: "Board required" });
+    if (link && !isValidLink(link)) {
+      return res.status(400).json({ error: "Destination link must be a valid http(s) URL", code: "INVALID_LINK" });
+    }
+
+    const saved = pin_id ? db.prepare("SELECT * FROM generated_pins WHERE id = ? AND user_id = ?").get(pin_id, req.userId) as any : null;
+    if (pin_id && !saved) return res.status(404).json({ error: "Pin not found" });
+
+    let claimed = false;
+    try {
+      const image = asset_id ? await loadOwnedAsset(db, assetStorage, asset_id, req.userId) : null;
+      if (asset_id && !image) return res.status(400).json({ error: "Unknown asset" });
+      if (saved) {
+        // Claim the pin so the publish worker can't publish it at the same time
+        claimed = db.prepare("UPDATE generated_pins SET status = 'publishing' WHERE id = ? AND status NOT IN ('publishing', 'published')").run(saved.id).changes > 0;
+        if (!claimed) return res.status(409).json({ error: "Pin is already published" });
       }
 
-      // 5. Cache the result
-      if (metadata && (metadata.title || metadata.image)) {
-        db.prepare("INSERT OR REPLACE INTO metadata_cache (url, title, description, image) VALUES (?, ?, ?, ?)")
-          .run(url, metadata.title, metadata.description, metadata.image);
-        
-        res.json(metadata);
-      } else {
-        throw new Error("No metadata found");
+      console.log("Publishing to Pinterest for user:", req.userId, { title, board_id });
+      const pin = await publishPin(db, req.userId, {
+        board_id,
+        board_section_id,
+        title,
+        description,
+        link: link || undefined,
+        image_data: image || undefined,
+        image_url: image ? undefined : image_url,
+      });
+      if (claimed) {
+        db.prepare("INSERT INTO publish_attempts (pin_id, success, pinterest_pin_id) VALUES (?, 1, ?)").run(saved.id, pin.id);
+        db.prepare("UPDATE generated_pins SET status = 'published', pinterest_pin_id = ?, scheduled_at = NULL WHERE id = ?").run(pin.id, saved.id);
       }
 
+      res.json({ 
+        success: true, 
+        pin_url: pin.url,
+        message: "Pin published successfully!" 
+      });
     } catch (error: any) {
-      // 5. Better Error Handling & Logging
+      if (claimed) db.prepare("UPDATE generated_pins SET status = ? WHERE id = ?").run(saved.status, saved.id);
+      if (error instanceof PinterestError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error("Publish failed:", error);
+      res.status(500).json({ error: "Publishing failed" });
+    }
+  });
+
+  // Cached extractions are open to anyone; skipping the cache costs a fresh scrape and a
+  // model summary, so only signed-in users can ask for that
+  const authenticateRefresh = (req: any, res: any, next: any) => req.body?.refresh === true ? authenticate(req, res, next) : next();
+
+  app.post("/api/extract-metadata", authenticateRefresh, async (req, res) => {
+    // refresh skips the cache, for when a cached result is wrong or stale
+    const { url, refresh } = req.body;
+
+    // 1. URL Validation
+    if (!url || !validator.isURL(url, { require_protocol: true })) {
+      return res.status(400).json({ error: "Please enter a valid URL (including http:// or https://)." });
+    }
+
+    try {
+      res.json(await extractMetadata(url, refresh === true));
+    } catch (error: any) {
+      // Better Error Handling & Logging
       console.error(`Metadata extraction failed for ${url}:`, {
         message: error.message,
         code: error.code,
         stack: error.stack
       });
 
-      let userMessage = "We couldn't automatically fetch the details.";
-      if (error.code === 'ECONNABORTED') {
-        userMessage = "The request timed out. The site might be slow or unreachable.";
-      } else if (error.response?.status === 403 || error.response?.status === 401) {
-        userMessage = "Access denied. This site might be blocking automated requests.";
-      } else if (error.response?.status === 404) {
-        userMessage = "The page was not found. Please check the URL.";
-      }
-
       res.status(500).json({ 
-        error: userMessage,
+        error: describeExtractionError(error),
         details: "Please enter a title and description manually for your pins.",
+        // Why the page was skipped, e.g. ROBOTS_DISALLOWED or RATE_LIMITED
+        reason: error instanceof FetchError ? error.code : null,
+        retry_after: error instanceof FetchError ? error.retryAfter ?? null : null,
         can_manual: true 
       });
     }
   });
 
+  // Batch Generation
+  // Each URL runs extraction, copy and image generation on the server and lands in History as drafts.
+  // A kit's logo as an image reference; a logo whose asset is gone is skipped
+  const loadBrandLogo = async (brand: BrandKit | null): Promise<InlineFile | null> => {
+    const logo = brand?.logo_asset_id ? await loadAsset(db, assetStorage, brand.logo_asset_id) : null;
+    return logo && { data: logo.data, mime_type: logo.content_type };
+  };
+
+  const processBatchItem = async (item: any, job: any, options: BatchOptions) => {
+    const metadata = await extractMetadata(item.url).catch((error: any) => {
+      throw new Error(describeExtractionError(error));
+    });
+
+    const generation = { ...loadGenerationDefaults(db, job.user_id), variations: options.pins_per_url };
+    const brand = resolveBrandKit(db, job.user_id, undefined);
+    const logo = await loadBrandLogo(brand);
+    const { value: contents, origin } = await generatePinContent(metadata.title, metadata.description, options.trends, metadata.structured, generation, brand);
+    // Unattended drafts shouldn't be plain source text; fail the item so it can be retried
+    if (origin === "fallback") throw new Error("The model's pin copy failed validation");
+
+    // Every image comes first: an item either gets all its pins or fails with none, so a retry can't duplicate them
+    const assets: string[] = [];
+    for (const content of contents) {
+      const image = await generatePinImage(content.title, brand, logo);
+      const imageData = image ? parseDataUrl(image) : null;
+      if (!imageData) throw new Error("Image generation failed");
+      assets.push((await storeAsset(db, assetStorage, imageData, job.user_id)).id);
+    }
+
+    return db.transaction(() => contents.map((content, index) => {
+      const board = options.board_id
+        ? { board_id: options.board_id, board_section_id: options.board_section_id }
+        : resolveDefaultBoard(job.user_id, item.url, options.category);
+      return createPinRecord(job.user_id, {
+        source_url: item.url,
+        title: content.title,
+        description: content.description,
+        asset_id: assets[index],
+        board_id: board?.board_id,
+        board_section_id: board?.board_section_id,
+        link: applyLinkRules(db, job.user_id, item.url, { keyword: options.trends[0], variant: index + 1 }),
+      });
+    }))();
+  };
+
+  const batchRunner = createBatchRunner(db, processBatchItem, Number(process.env.BATCH_CONCURRENCY) || 2);
+
+  const clampPinsPerUrl = (value: unknown) => Math.min(5, Math.max(1, Number(value) || 3));
+
+  // Only writes the job's rows, so it can run inside a caller's transaction; start it with batchRunner.pump()
+  const insertBatchJob = (
+    userId: number,
+    urls: string[],
+    settings: { pins_per_url?: unknown; board_id?: string | null; board_section_id?: string | null },
+    feedId: number | null = null
+  ) => {
+    // Same trends the Create tab would use, captured now so a resumed job stays consistent
+    const topTrends = db.prepare("SELECT keyword, category FROM trending_keywords ORDER BY momentum_score DESC LIMIT 3").all() as any[];
+    const options: BatchOptions = {
+      pins_per_url: clampPinsPerUrl(settings.pins_per_url),
+      trends: topTrends.map(t => t.keyword),
+      category: topTrends[0]?.category || null,
+      board_id: settings.board_id || null,
+      board_section_id: settings.board_section_id || null,
+    };
+
+    return db.transaction(() => {
+      const result = db.prepare("INSERT INTO batch_jobs (user_id, options, feed_id) VALUES (?, ?, ?)").run(userId, JSON.stringify(options), feedId);
+      const insertItem = db.prepare("INSERT INTO batch_items (job_id, url) VALUES (?, ?)");
+      for (const url of urls) insertItem.run(result.lastInsertRowid, url);
+      return result.lastInsertRowid;
+    })();
+  };
+
+  const createBatchJob = (...args: Parameters<typeof insertBatchJob>) => {
+    const jobId = insertBatchJob(...args);
+    batchRunner.pump();
+    return jobId;
+  };
+
+  const batchSummary = (job: any) => {
+    const counts = db.prepare("SELECT status, COUNT(*) as count FROM batch_items WHERE job_id = ? GROUP BY status").all(job.id) as any[];
+    const byStatus = Object.fromEntries(counts.map(c => [c.status, c.count]));
+    const feed = job.feed_id ? db.prepare("SELECT title, url FROM source_feeds WHERE id = ?").get(job.feed_id) as any : null;
+    return {
+      ...job,
+      options: JSON.parse(job.options),
+      feed_title: feed ? feed.title || feed.url : null,
+      total: counts.reduce((sum, c) => sum + c.count, 0),
+      pending: byStatus.pending || 0,
+      running: byStatus.running || 0,
+      done: byStatus.done || 0,
+      failed: byStatus.failed || 0,
+    };
+  };
+
+  app.post("/api/batches", authenticate, (req: any, res) => {
+    const { input, board_id, board_section_id } = req.body;
+    if (typeof input !== "string" || !input.trim()) return res.status(400).json({ error: "Paste URLs or upload a CSV" });
+
+    const urls = parseBatchInput(input);
+    if (urls.length === 0) return res.status(400).json({ error: "No valid http(s) URLs found" });
+    if (urls.length > MAX_BATCH_URLS) return res.status(400).json({ error: `A batch can contain at most ${MAX_BATCH_URLS} URLs` });
+
+    const jobId = createBatchJob(req.userId, urls, { pins_per_url: req.body.pins_per_url, board_id, board_section_id });
+    res.json(batchSummary(db.prepare("SELECT * FROM batch_jobs WHERE id = ?").get(jobId)));
+  });
+
+  app.get("/api/batches", authenticate, (req: any, res) => {
+    const jobs = db.prepare("SELECT * FROM batch_jobs WHERE user_id = ? ORDER BY created_at DESC LIMIT 50").all(req.userId);
+    res.json(jobs.map(batchSummary));
+  });
+
+  app.get("/api/batches/:id", authenticate, (req: any, res) => {
+    const job = db.prepare("SELECT * FROM batch_jobs WHERE id = ? AND user_id = ?").get(req.params.id, req.userId);
+    if (!job) return res.status(404).json({ error: "Batch not found" });
+    const items = db.prepare("SELECT * FROM batch_items WHERE job_id = ? ORDER BY id").all(req.params.id) as any[];
+    res.json({
+      ...batchSummary(job),
+      items: items.map(item => ({ ...item, pin_ids: JSON.parse(item.pin_ids || "[]") })),
+    });
+  });
+
+  app.post("/api/batches/:id/cancel", authenticate, (req: any, res) => {
+    const result = db.prepare(`
+      UPDATE batch_jobs SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND user_id = ? AND status IN ('queued', 'running')
+    `).run(req.params.id, req.userId);
+    if (result.changes === 0) return res.status(404).json({ error: "No active batch found" });
+    res.json({ success: true });
+  });
+
+  // Puts failed items back in the queue and reopens the job
+  app.post("/api/batches/:id/retry", authenticate, (req: any, res) => {
+    const job = db.prepare("SELECT * FROM batch_jobs WHERE id = ? AND user_id = ?").get(req.params.id, req.userId);
+    if (!job) return res.status(404).json({ error: "Batch not found" });
+    const retried = db.transaction(() => {
+      const reset = db.prepare("UPDATE batch_items SET status = 'pending', error = NULL WHERE job_id = ? AND status = 'failed'").run(req.params.id);
+      if (reset.changes > 0) {
+        db.prepare("UPDATE batch_jobs SET status = 'queued', updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(req.params.id);
+      }
+      return reset.changes;
+    })();
+    if (retried === 0) return res.status(400).json({ error: "No failed items to retry" });
+    batchRunner.pump();
+    res.json({ success: true });
+  });
+
+  // Source Feeds
+  // New posts in a registered RSS/Atom feed or sitemap become batch jobs of draft pins.
+  const feedQueue: FeedQueue = {
+    create: (feed, urls) => insertBatchJob(feed.user_id, urls, JSON.parse(feed.options), feed.id),
+    start: () => batchRunner.pump(),
+  };
+
+  const feedSummary = (feed: any) => ({
+    ...feed,
+    options: JSON.parse(feed.options),
+    enabled: !!feed.enabled,
+    entry_count: (db.prepare("SELECT COUNT(*) as count FROM feed_entries WHERE feed_id = ?").get(feed.id) as any).count,
+    queued_count: (db.prepare("SELECT COUNT(*) as count FROM feed_entries WHERE feed_id = ? AND batch_job_id IS NOT NULL").get(feed.id) as any).count,
+  });
+
+  app.get("/api/feeds", authenticate, (req: any, res) => {
+    const feeds = db.prepare("SELECT * FROM source_feeds WHERE user_id = ? ORDER BY created_at DESC").all(req.userId);
+    res.json(feeds.map(feedSummary));
+  });
+
+  app.post("/api/feeds", authenticate, async (req: any, res) => {
+    const { url, board_id, board_section_id } = req.body;
+    if (typeof url !== "string" || !validator.isURL(url, { require_protocol: true, protocols: ["http", "https"] })) {
+      return res.status(400).json({ error: "Enter the full feed or sitemap URL (including https://)" });
+    }
+    if (db.prepare("SELECT 1 FROM source_feeds WHERE user_id = ? AND url = ?").get(req.userId, url)) {
+      return res.status(409).json({ error: "This feed is already registered" });
+    }
+
+    const options = { pins_per_url: clampPinsPerUrl(req.body.pins_per_url), board_id: board_id || null, board_section_id: board_section_id || null };
+    const result = db.prepare("INSERT INTO source_feeds (user_id, url, options) VALUES (?, ?, ?)").run(req.userId, url, JSON.stringify(options));
+    const feed = db.prepare("SELECT * FROM source_feeds WHERE id = ?").get(result.lastInsertRowid);
+
+    // The first check runs right away so a typo or an HTML page is rejected instead of failing quietly later
+    try {
+      const check = await checkFeed(db, feed, feedQueue, Number(req.body.backfill) || 0);
+      res.json({ ...feedSummary(db.prepare("SELECT * FROM source_feeds WHERE id = ?").get(result.lastInsertRowid)), ...check });
+    } catch (error: any) {
+      db.prepare("DELETE FROM source_feeds WHERE id = ?").run(result.lastInsertRowid);
+      res.status(400).json({ error: error instanceof FeedError ? error.message : describeExtractionError(error) });
+    }
+  });
+
+  app.patch("/api/feeds/:id", authenticate, (req: any, res) => {
+    const feed = db.prepare("SELECT * FROM source_feeds WHERE id = ? AND user_id = ?").get(req.params.id, req.userId) as any;
+    if (!feed) return res.status(404).json({ error: "Feed not found" });
+    const current = JSON.parse(feed.options);
+    const options = {
+      pins_per_url: "pins_per_url" in req.body ? clampPinsPerUrl(req.body.pins_per_url) : current.pins_per_url,
+      board_id: "board_id" in req.body ? req.body.board_id || null : current.board_id,
+      board_section_id: "board_id" in req.body || "board_section_id" in req.body ? req.body.board_section_id || null : current.board_section_id,
+    };
+    const enabled = "enabled" in req.body ? (req.body.enabled ? 1 : 0) : feed.enabled;
+    db.prepare("UPDATE source_feeds SET options = ?, enabled = ? WHERE id = ?").run(JSON.stringify(options), enabled, feed.id);
+    res.json(feedSummary(db.prepare("SELECT * FROM source_feeds WHERE id = ?").get(feed.id)));
+  });
+
+  app.post("/api/feeds/:id/check", authenticate, async (req: any, res) => {
+    const feed = db.prepare("SELECT * FROM source_feeds WHERE id = ? AND user_id = ?").get(req.params.id, req.userId);
+    if (!feed) return res.status(404).json({ error: "Feed not found" });
+    try {
+      res.json(await checkFeed(db, feed, feedQueue));
+    } catch (error: any) {
+      res.status(502).json({ error: error instanceof FeedError ? error.message : describeExtractionError(error) });
+    }
+  });
+
+  // Queued jobs and the pins they produced stay; only the feed and its seen-URL list go
+  app.delete("/api/feeds/:id", authenticate, (req: any, res) => {
+    const feed = db.prepare("SELECT id FROM source_feeds WHERE id = ? AND user_id = ?").get(req.params.id, req.userId);
+    if (!feed) return res.status(404).json({ error: "Feed not found" });
+    db.transaction(() => {
+      db.prepare("DELETE FROM feed_entries WHERE feed_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM source_feeds WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  // Brand Kits
+  // Logos are uploaded through /api/assets first and referenced by asset id
+  const canUseLogo = (userId: number, id: string | null) => !id || userOwnsAsset(db, id, userId);
+  const brandKitSummary = (kit: BrandKit) => ({ ...kit, logo_url: kit.logo_asset_id ? assetUrl(kit.logo_asset_id) : null });
+
+  app.get("/api/brand-kits", authenticate, (req: any, res) => {
+    res.json(listBrandKits(db, req.userId).map(brandKitSummary));
+  });
+
+  app.post("/api/brand-kits", authenticate, (req: any, res) => {
+    try {
+      const kit = parseBrandKit(req.body);
+      if (!canUseLogo(req.userId, kit.logo_asset_id)) return res.status(400).json({ error: "Upload the logo first" });
+      // A user's first kit becomes their default
+      if (listBrandKits(db, req.userId).length === 0) kit.is_default = true;
+      res.json(brandKitSummary(saveBrandKit(db, req.userId, kit)));
+    } catch (error: any) {
+      if (error instanceof BrandKitError) return res.status(error.status).json({ error: error.message });
+      console.error("Creating brand kit failed:", error);
+      res.status(500).json({ error: "Failed to save brand kit" });
+    }
+  });
+
+  app.patch("/api/brand-kits/:id", authenticate, (req: any, res) => {
+    const current = getBrandKit(db, req.userId, Number(req.params.id));
+    if (!current) return res.status(404).json({ error: "Brand kit not found" });
+    try {
+      const kit = parseBrandKit(req.body, current);
+      if (!canUseLogo(req.userId, kit.logo_asset_id)) return res.status(400).json({ error: "Upload the logo first" });
+      res.json(brandKitSummary(saveBrandKit(db, req.userId, kit, current.id)));
+    } catch (error: any) {
+      if (error instanceof BrandKitError) return res.status(error.status).json({ error: error.message });
+      console.error("Updating brand kit failed:", error);
+      res.status(500).json({ error: "Failed to save brand kit" });
+    }
+  });
+
+  app.delete("/api/brand-kits/:id", authenticate, (req: any, res) => {
+    const result = db.prepare("DELETE FROM brand_kits WHERE id = ? AND user_id = ?").run(req.params.id, req.userId);
+    if (result.changes === 0) return res.status(404).json({ error: "Brand kit not found" });
+    res.json({ success: true });
+  });
+
+  // Checks pin copy (and optionally a stored image) against a kit. Banned phrases are checked
+  // exactly; voice and visuals are reviewed by the model, and `reviewed` says whether that worked.
+  app.post("/api/brand-kits/:id/check", authenticate, async (req: any, res) => {
+    const kit = getBrandKit(db, req.userId, Number(req.params.id));
+    if (!kit) return res.status(404).json({ error: "Brand kit not found" });
+    const { pins, asset_id } = req.body;
+    if (!Array.isArray(pins) || pins.length === 0 || pins.length > 20 || pins.some((pin: any) => typeof pin?.title !== "string" || typeof pin?.description !== "string")) {
+      return res.status(400).json({ error: "pins must be a list of 1-20 {title, description}" });
+    }
+    const issues = checkCopyCompliance(kit, pins);
+    let reviewed = false;
+    try {
+      const image = typeof asset_id === "string" ? await loadOwnedAsset(db, assetStorage, asset_id, req.userId) : null;
+      if (asset_id && !image) return res.status(404).json({ error: "Image not found" });
+      const review = await reviewBrandCompliance(kit, pins, image && { data: image.data, mime_type: image.content_type });
+      if (review.value) {
+        issues.push(...review.value);
+        reviewed = true;
+      }
+    } catch (error: any) {
+      console.error("Brand compliance review failed:", error);
+    }
+    res.json({ compliant: issues.length === 0, reviewed, issues: issues.sort((a, b) => a.pin - b.pin) });
+  });
+
+  // Generation
+  // Model credentials stay on the server; the browser asks for copy and images through these.
+  // Generated and edited images are stored as assets and returned by URL.
+  const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === "string");
+
+  // The user's saved copy options, plus the tone and CTA presets the Create form offers
+  app.get("/api/generate/defaults", authenticate, (req: any, res) => {
+    res.json({
+      options: loadGenerationDefaults(db, req.userId),
+      tones: Object.entries(TONE_PRESETS).map(([id, preset]) => ({ id, label: preset.label })),
+      cta_styles: Object.entries(CTA_STYLES).map(([id, style]) => ({ id, label: style.label })),
+    });
+  });
+
+  // Accepts any subset of the options; the rest keep their saved values
+  app.put("/api/generate/defaults", authenticate, (req: any, res) => {
+    try {
+      const options = parseGenerationOptions(req.body, loadGenerationDefaults(db, req.userId));
+      res.json({ options: saveGenerationDefaults(db, req.userId, options) });
+    } catch (error: any) {
+      if (error instanceof GenerationOptionsError) return res.status(error.status).json({ error: error.message });
+      console.error("Saving generation defaults failed:", error);
+      res.status(500).json({ error: "Failed to save defaults" });
+    }
+  });
+
+  app.post("/api/generate/content", authenticate, async (req: any, res) => {
+    const { title, description, trends = [], details = null, chapters } = req.body;
+    if (typeof title !== "string" || !title.trim()) return res.status(400).json({ error: "A source title is required" });
+    if (!isStringList(trends)) return res.status(400).json({ error: "trends must be a list of keywords" });
+    // Video chapters become one pin each instead of the usual variations
+    if (chapters !== undefined && (!Array.isArray(chapters) || chapters.some((c: any) => typeof c?.title !== "string"))) {
+      return res.status(400).json({ error: "chapters must be a list of {title, excerpt}" });
+    }
+    // Options sent with the request override the user's saved defaults for this run only.
+    // brand_kit_id picks a kit; leaving it out uses the default kit and null uses none.
+    let options;
+    let brand;
+    try {
+      options = parseGenerationOptions(req.body.options, loadGenerationDefaults(db, req.userId));
+      brand = resolveBrandKit(db, req.userId, req.body.brand_kit_id);
+    } catch (error: any) {
+      if (error instanceof GenerationOptionsError || error instanceof BrandKitError) return res.status(error.status).json({ error: error.message });
+      console.error("Loading generation options failed:", error);
+      return res.status(500).json({ error: "Content generation failed" });
+    }
+
+    try {
+      const result = chapters?.length
+        ? await generateChapterPins(title, chapters.map((c: any) => ({ title: c.title, excerpt: typeof c.excerpt === "string" ? c.excerpt : "" })), trends, options, brand)
+        : await generatePinContent(title, typeof description === "string" ? description : "", trends, details && typeof details === "object" ? details : null, options, brand);
+      // origin says whether the copy is the model's, repaired, or the source-text fallback
+      res.json({ pins: result.value, origin: result.origin, brand_kit_id: brand?.id ?? null });
+    } catch (error: any) {
+      console.error("Content generation failed:", error);
+      res.status(502).json({ error: "Content generation failed" });
+    }
+  });
+
+  app.post("/api/generate/image", authenticate, async (req: any, res) => {
+    const { prompt } = req.body;
+    if (typeof prompt !== "string" || !prompt.trim()) return res.status(400).json({ error: "A prompt is required" });
+    try {
+      const brand = resolveBrandKit(db, req.userId, req.body.brand_kit_id);
+      const image = await generatePinImage(prompt, brand, await loadBrandLogo(brand));
+      const data = image ? parseDataUrl(image) : null;
+      if (!data) return res.status(502).json({ error: "Image generation failed" });
+      const asset = await storeAsset(db, assetStorage, data, req.userId);
+      res.json({ asset_id: asset.id, url: assetUrl(asset.id) });
+    } catch (error: any) {
+      if (error instanceof BrandKitError) return res.status(error.status).json({ error: error.message });
+      console.error("Generating or storing the image failed:", error);
+      res.status(500).json({ error: "Failed to generate image" });
+    }
+  });
+
+  // Edits an image the caller already stored (upload data URLs through /api/assets first)
+  app.post("/api/generate/edit-image", authenticate, async (req: any, res) => {
+    const { asset_id, prompt } = req.body;
+    if (typeof prompt !== "string" || !prompt.trim()) return res.status(400).json({ error: "Describe the edit" });
+    try {
+      const brand = resolveBrandKit(db, req.userId, req.body.brand_kit_id);
+      const source = typeof asset_id === "string" ? await loadOwnedAsset(db, assetStorage, asset_id, req.userId) : null;
+      if (!source) return res.status(404).json({ error: "Image not found" });
+      const edited = await editPinImage({ data: source.data, mime_type: source.content_type }, prompt, brand, await loadBrandLogo(brand));
+      const data = edited ? parseDataUrl(edited) : null;
+      if (!data) return res.status(502).json({ error: "Image editing failed" });
+      const asset = await storeAsset(db, assetStorage, data, req.userId);
+      res.json({ asset_id: asset.id, url: assetUrl(asset.id) });
+    } catch (error: any) {
+      if (error instanceof BrandKitError) return res.status(error.status).json({ error: error.message });
+      console.error("Editing or storing the image failed:", error);
+      res.status(500).json({ error: "Failed to edit image" });
+    }
+  });
+
   app.post("/api/chat/refine", async (req, res) => {
     const { message, history, metadata } = req.body;
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || "" });
-      const model = "gemini-3-flash-preview";
-      
       const systemInstruction = `You are a Pinterest Strategy Assistant. Your goal is to help users refine their idea for creating viral Pinterest pins from a provided link.
       
       Current Metadata from Link:
@@ -725,22 +1799,40 @@ async function extractTikTokData(url: string) {
       
       Keep your responses concise and focused on the Pinterest strategy.`;
 
-      const chat = ai.chats.create({
-        model,
-        config: { systemInstruction }
-      });
+      // Earlier turns as { role: "user" | "assistant" | "model", text }; anything else is dropped
+      const turns: ChatTurn[] = (Array.isArray(history) ? history : [])
+        .filter((turn: any) => typeof turn?.text === "string" && ["user", "assistant", "model"].includes(turn.role))
+        .map((turn: any) => ({ role: turn.role === "user" ? "user" : "assistant", text: turn.text }));
 
-      // Format history for Gemini
-      // (Simplified for this implementation)
-      
-      const response = await chat.sendMessage({ message });
-      res.json({ text: response.text });
+      const text = await getLlm().chat({ system: systemInstruction, history: turns, message: String(message ?? "") });
+      res.json({ text });
     } catch (error: any) {
       console.error("Chat refinement failed:", error);
       res.status(500).json({ error: "Failed to process chat message" });
     }
   });
 
+  // Extraction Cache
+  // Without ?url lists recent entries (filtered by ?q); with it returns that entry in full
+  app.get("/api/admin/extraction-cache", authenticate, requireAdmin, (req: any, res) => {
+    const url = typeof req.query.url === "string" ? req.query.url : "";
+    if (!url) {
+      return res.json(listCacheEntries(db, typeof req.query.q === "string" ? req.query.q : "", Math.min(200, Number(req.query.limit) || 50)));
+    }
+    const entry = inspectCacheEntry(db, url);
+    if (!entry) return res.status(404).json({ error: "That URL isn't cached" });
+    res.json(entry);
+  });
+
+  // Purges {url}, {host} (including subdomains) or {all: true}
+  app.delete("/api/admin/extraction-cache", authenticate, requireAdmin, (req: any, res) => {
+    const { url, host, all } = req.body || {};
+    if (!url && !host && all !== true) return res.status(400).json({ error: "Specify a url, a host or all: true" });
+    const purged = purgeCache(db, { url, host, all: all === true });
+    console.log(`User ${req.userId} purged ${purged} extraction cache entries`, { url, host, all });
+    res.json({ purged });
+  });
+
   // Mock Trend Update (In a real app, this would be a cron job)
   app.post("/api/admin/update-trends", async (req, res) => {
     const mockTrends = [
@@ -791,6 +1883,11 @@ async function extractTikTokData(url: string) {
     transaction(mockTrends);
   }
 
+  await migrateInlineImages();
+  startPublishWorker(db, assetStorage);
+  batchRunner.resume();
+  startFeedPoller(db, feedQueue);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { Database } from "better-sqlite3";
+import { FetchError, safeFetch } from "./safeFetch";
+
+// Where asset bytes live. LocalAssetStorage is the only implementation today; an
+// S3-compatible bucket only needs to implement these three calls against object keys.
+export interface AssetStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  has(key: string): Promise<boolean>;
+}
+
+export class LocalAssetStorage implements AssetStorage {
+  constructor(private root: string) {}
+
+  // Fan out by hash prefix so no single directory grows unbounded
+  private pathFor(key: string) {
+    return path.join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+
+  async put(key: string, data: Buffer) {
+    const target = this.pathFor(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Write then rename so a crash never leaves a half-written asset under its final name
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (e: any) {
+      if (e.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  async has(key: string) {
+    try {
+      await fs.access(this.pathFor(key));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+}
+
+export const MAX_ASSET_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+// Trust the bytes, not the client's Content-Type header
+export function sniffImageType(data: Buffer): string | null {
+  if (data.length < 12) return null;
+  if (data[0] === 0x89 && data.toString("ascii", 1, 4) === "PNG") return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") return "image/webp";
+  if (data.toString("ascii", 0, 4) === "GIF8") return "image/gif";
+  return null;
+}
+
+export const isAssetId = (id: string) => /^[a-f0-9]{64}$/.test(id);
+
+export const assetUrl = (id: string) => `/api/assets/${id}`;
+
+export const assetExtension = (contentType: string) => IMAGE_EXTENSIONS[contentType] || "bin";
+
+export function parseDataUrl(dataUrl: string): Buffer | null {
+  const match = dataUrl.match(/^data:[^;,]+;base64,(.*)$/s);
+  return match ? Buffer.from(match[1], "base64") : null;
+}
+
+export class AssetError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AssetError";
+  }
+}
+
+// Asset ids are the SHA-256 of the bytes, so saving the same image twice is free.
+// Everyone who stores the bytes is recorded as an owner, not just the first uploader.
+export async function storeAsset(db: Database, storage: AssetStorage, data: Buffer, userId: number | null) {
+  if (data.length === 0) throw new AssetError("Empty image");
+  if (data.length > MAX_ASSET_BYTES) throw new AssetError("Image is too large", 413);
+  const contentType = sniffImageType(data);
+  if (!contentType) throw new AssetError("Unsupported image type", 415);
+
+  const id = crypto.createHash("sha256").update(data).digest("hex");
+  if (!(await storage.has(id))) {
+    await storage.put(id, data, contentType);
+  }
+  db.prepare("INSERT OR IGNORE INTO assets (id, user_id, content_type, byte_size) VALUES (?, ?, ?, ?)")
+    .run(id, userId, contentType, data.length);
+  if (userId !== null) db.prepare("INSERT OR IGNORE INTO asset_owners (asset_id, user_id) VALUES (?, ?)").run(id, userId);
+  return { id, content_type: contentType, byte_size: data.length };
+}
+
+export async function loadAsset(db: Database, storage: AssetStorage, id: string) {
+  if (!isAssetId(id)) return null;
+  const meta = db.prepare("SELECT * FROM assets WHERE id = ?").get(id) as any;
+  if (!meta) return null;
+  const data = await storage.get(id);
+  if (!data) return null;
+  return { id, content_type: meta.content_type as string, data };
+}
+
+export const userOwnsAsset = (db: Database, id: string, userId: number) =>
+  !!db.prepare("SELECT 1 FROM asset_owners WHERE asset_id = ? AND user_id = ?").get(id, userId);
+
+// For requests that name an asset by id: someone else's image behaves as if it doesn't exist
+export async function loadOwnedAsset(db: Database, storage: AssetStorage, id: string, userId: number) {
+  return userOwnsAsset(db, id, userId) ? loadAsset(db, storage, id) : null;
+}
+
+// Copies a remote image (e.g. a photo from the source page) into the store so pins never hotlink it
+export async function importAsset(db: Database, storage: AssetStorage, url: string, userId: number | null) {
+  let data: Buffer;
+  try {
+    const response = await safeFetch(url, { expect: "image", maxBytes: MAX_ASSET_BYTES, timeoutMs: 15000, headers: { Accept: "image/*" } });
+    data = response.body;
+  } catch (e: any) {
+    if (e instanceof FetchError && e.code === "TOO_LARGE") throw new AssetError("Image is too large", 413);
+    if (e instanceof FetchError && e.code === "BLOCKED_HOST") throw new AssetError(e.message, 400);
+    throw new AssetError("Couldn't download that image", 422);
+  }
+  return storeAsset(db, storage, data, userId);
+}
@@ -0,0 +1,135 @@
+import type { Database } from "better-sqlite3";
+import validator from "validator";
+
+export const MAX_BATCH_URLS = 1000;
+// How soon the runner tries again after the database refused a claim (e.g. SQLITE_BUSY)
+const CLAIM_RETRY_MS = 5000;
+
+export interface BatchOptions {
+  pins_per_url: number;
+  trends: string[];
+  category?: string | null;
+  board_id?: string | null;
+  board_section_id?: string | null;
+}
+
+// Handles one URL end to end and returns the ids of the pins it saved.
+export type BatchItemProcessor = (item: any, job: any, options: BatchOptions) => Promise<number[]>;
+
+// Splits one CSV line, honouring double-quoted cells
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === "," && !quoted) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cell.trim());
+}
+
+// Accepts a newline-separated list or a CSV export. With a CSV, a column named
+// "url" or "link" is preferred; otherwise the first cell that looks like a URL wins.
+export function parseBatchInput(input: string): string[] {
+  const lines = input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const urlColumn = header.findIndex(cell => cell === "url" || cell === "link");
+  const rows = urlColumn >= 0 ? lines.slice(1) : lines;
+
+  const urls = rows.map(line => {
+    const cells = splitCsvLine(line);
+    const candidates = urlColumn >= 0 ? [cells[urlColumn] || ""] : cells;
+    return candidates.find(cell => validator.isURL(cell, { require_protocol: true, protocols: ["http", "https"] }));
+  });
+  return [...new Set(urls.filter((url): url is string => !!url))];
+}
+
+// Runs batch items from the database with bounded concurrency. All progress lives in
+// batch_items, so a restart only needs resume() to pick up where it left off.
+export function createBatchRunner(db: Database, processItem: BatchItemProcessor, concurrency = 2) {
+  let active = 0;
+  let retry: NodeJS.Timeout | null = null;
+
+  // One transaction, so a failure never leaves an item marked running with nothing running it
+  const claimNext = db.transaction(() => {
+    const item = db.prepare(`
+      SELECT i.* FROM batch_items i JOIN batch_jobs j ON j.id = i.job_id
+      WHERE i.status = 'pending' AND j.status IN ('queued', 'running')
+      ORDER BY i.id LIMIT 1
+    `).get() as any;
+    if (!item) return null;
+    const claimed = db.prepare("UPDATE batch_items SET status = 'running', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'pending'").run(item.id);
+    if (claimed.changes === 0) return null;
+    db.prepare("UPDATE batch_jobs SET status = 'running', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'queued'").run(item.job_id);
+    return item;
+  });
+
+  const finishJobIfDone = (jobId: number) => {
+    db.prepare(`
+      UPDATE batch_jobs SET status = 'completed', updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'running'
+        AND NOT EXISTS (SELECT 1 FROM batch_items WHERE job_id = ? AND status IN ('pending', 'running'))
+    `).run(jobId, jobId);
+  };
+
+  const runItem = async (item: any) => {
+    const job = db.prepare("SELECT * FROM batch_jobs WHERE id = ?").get(item.job_id) as any;
+    try {
+      const pinIds = await processItem(item, job, JSON.parse(job.options));
+      db.prepare("UPDATE batch_items SET status = 'done', error = NULL, pin_ids = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(JSON.stringify(pinIds), item.id);
+    } catch (e: any) {
+      console.error(`Batch item ${item.id} (${item.url}) failed:`, e.message);
+      db.prepare("UPDATE batch_items SET status = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(e.message || "Unknown error", item.id);
+    }
+    finishJobIfDone(item.job_id);
+  };
+
+  // Never throws: it runs from request handlers and from the .finally of finished items
+  const pump = () => {
+    try {
+      while (active < concurrency) {
+        const item = claimNext();
+        if (!item) return;
+        active++;
+        runItem(item)
+          .catch((e: any) => console.error(`Recording the result of batch item ${item.id} failed:`, e))
+          .finally(() => {
+            active--;
+            pump();
+          });
+      }
+    } catch (e) {
+      console.error("Claiming the next batch item failed:", e);
+      retry ??= setTimeout(() => {
+        retry = null;
+        pump();
+      }, CLAIM_RETRY_MS);
+    }
+  };
+
+  return {
+    pump,
+    // Items that were mid-flight when the server stopped are simply run again
+    resume() {
+      db.prepare("UPDATE batch_items SET status = 'pending' WHERE status = 'running'").run();
+      pump();
+    },
+  };
+}
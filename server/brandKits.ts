@@ -0,0 +1,221 @@
+import type { Database } from "better-sqlite3";
+import { isAssetId } from "./assets";
+import { findAvoidedWords } from "./generationOptions";
+import { type InlineFile, type StructuredResult, generateStructured } from "./llm";
+
+// A brand kit is what makes pins look and sound like one brand whoever creates them:
+// a logo, a colour palette, fonts, a voice and phrases the brand never uses. Users can
+// keep several (one per account they run); the default kit applies unless another is picked.
+
+export interface BrandKit {
+  id: number;
+  name: string;
+  logo_asset_id: string | null;
+  // "#RRGGBB", most prominent first
+  palette: string[];
+  heading_font: string;
+  body_font: string;
+  voice: string;
+  banned_phrases: string[];
+  is_default: boolean;
+}
+
+export type BrandKitInput = Omit<BrandKit, "id">;
+
+const MAX_PALETTE_COLOURS = 8;
+const MAX_BANNED_PHRASES = 50;
+
+export class BrandKitError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "BrandKitError";
+  }
+}
+
+const EMPTY_KIT: BrandKitInput = {
+  name: "",
+  logo_asset_id: null,
+  palette: [],
+  heading_font: "",
+  body_font: "",
+  voice: "",
+  banned_phrases: [],
+  is_default: false,
+};
+
+// "#abc" and "ABCDEF" both become "#AABBCC"
+function normalizeHex(value: string) {
+  const hex = value.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(hex)) return `#${hex.split("").map(c => c + c).join("")}`.toUpperCase();
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toUpperCase();
+  return null;
+}
+
+function text(value: unknown, field: string, max: number) {
+  if (value === null) return "";
+  if (typeof value !== "string") throw new BrandKitError(`${field} must be text`);
+  if (value.trim().length > max) throw new BrandKitError(`${field} can be at most ${max} characters`);
+  return value.trim();
+}
+
+// Applies the fields present in `input` on top of `base` (a new kit, or the stored one being edited)
+export function parseBrandKit(input: unknown, base: BrandKitInput = EMPTY_KIT): BrandKitInput {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) throw new BrandKitError("A brand kit must be an object");
+  const raw = input as Record<string, unknown>;
+  const kit = { ...base };
+
+  if (raw.name !== undefined) kit.name = text(raw.name, "Name", 60);
+  if (!kit.name) throw new BrandKitError("Give the brand kit a name");
+  if (raw.logo_asset_id !== undefined) {
+    const logo = raw.logo_asset_id;
+    if (logo !== null && (typeof logo !== "string" || !isAssetId(logo))) throw new BrandKitError("The logo must be an uploaded image");
+    kit.logo_asset_id = logo as string | null;
+  }
+  if (raw.palette !== undefined) {
+    if (!Array.isArray(raw.palette) || raw.palette.some(colour => typeof colour !== "string")) throw new BrandKitError("The palette must be a list of hex colours");
+    const colours = raw.palette.map(colour => normalizeHex(colour));
+    const invalid = raw.palette.find((_, i) => !colours[i]);
+    if (invalid !== undefined) throw new BrandKitError(`"${invalid}" isn't a hex colour like #1A2B3C`);
+    kit.palette = [...new Set(colours as string[])];
+    if (kit.palette.length > MAX_PALETTE_COLOURS) throw new BrandKitError(`A palette can have at most ${MAX_PALETTE_COLOURS} colours`);
+  }
+  if (raw.heading_font !== undefined) kit.heading_font = text(raw.heading_font, "Heading font", 60);
+  if (raw.body_font !== undefined) kit.body_font = text(raw.body_font, "Body font", 60);
+  if (raw.voice !== undefined) kit.voice = text(raw.voice, "Voice guidelines", 1000);
+  if (raw.banned_phrases !== undefined) {
+    // A list, or one comma-separated string as typed into the form
+    const phrases = typeof raw.banned_phrases === "string" ? raw.banned_phrases.split(",") : raw.banned_phrases;
+    if (!Array.isArray(phrases) || phrases.some(phrase => typeof phrase !== "string")) throw new BrandKitError("Banned phrases must be a list");
+    kit.banned_phrases = [...new Set(phrases.map(phrase => phrase.trim()).filter(Boolean))];
+    if (kit.banned_phrases.length > MAX_BANNED_PHRASES) throw new BrandKitError(`List at most ${MAX_BANNED_PHRASES} banned phrases`);
+    if (kit.banned_phrases.some(phrase => phrase.length > 60)) throw new BrandKitError("Each banned phrase can be at most 60 characters");
+  }
+  if (raw.is_default !== undefined) {
+    if (typeof raw.is_default !== "boolean") throw new BrandKitError("is_default must be true or false");
+    kit.is_default = raw.is_default;
+  }
+  return kit;
+}
+
+const fromRow = (row: any): BrandKit => ({
+  id: row.id,
+  name: row.name,
+  logo_asset_id: row.logo_asset_id,
+  palette: JSON.parse(row.palette),
+  heading_font: row.heading_font,
+  body_font: row.body_font,
+  voice: row.voice,
+  banned_phrases: JSON.parse(row.banned_phrases),
+  is_default: !!row.is_default,
+});
+
+export function listBrandKits(db: Database, userId: number) {
+  return (db.prepare("SELECT * FROM brand_kits WHERE user_id = ? ORDER BY is_default DESC, name").all(userId) as any[]).map(fromRow);
+}
+
+export function getBrandKit(db: Database, userId: number, id: number) {
+  const row = db.prepare("SELECT * FROM brand_kits WHERE id = ? AND user_id = ?").get(id, userId);
+  return row ? fromRow(row) : null;
+}
+
+// The kit a generation request uses: undefined means the user's default, null means none
+export function resolveBrandKit(db: Database, userId: number, requested: unknown): BrandKit | null {
+  if (requested === null) return null;
+  if (requested === undefined) {
+    const row = db.prepare("SELECT * FROM brand_kits WHERE user_id = ? AND is_default = 1").get(userId);
+    return row ? fromRow(row) : null;
+  }
+  const kit = Number.isInteger(Number(requested)) ? getBrandKit(db, userId, Number(requested)) : null;
+  if (!kit) throw new BrandKitError("Brand kit not found", 404);
+  return kit;
+}
+
+// Saves a new kit (no id) or replaces an existing one; at most one kit per user is the default
+export function saveBrandKit(db: Database, userId: number, kit: BrandKitInput, id?: number) {
+  return db.transaction(() => {
+    if (kit.is_default) db.prepare("UPDATE brand_kits SET is_default = 0 WHERE user_id = ?").run(userId);
+    const values = [kit.name, kit.logo_asset_id, JSON.stringify(kit.palette), kit.heading_font, kit.body_font, kit.voice, JSON.stringify(kit.banned_phrases), kit.is_default ? 1 : 0];
+    if (id === undefined) {
+      const result = db.prepare(`
+        INSERT INTO brand_kits (user_id, name, logo_asset_id, palette, heading_font, body_font, voice, banned_phrases, is_default)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(userId, ...values);
+      return getBrandKit(db, userId, Number(result.lastInsertRowid))!;
+    }
+    db.prepare(`
+      UPDATE brand_kits SET name = ?, logo_asset_id = ?, palette = ?, heading_font = ?, body_font = ?, voice = ?, banned_phrases = ?, is_default = ?,
+             updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND user_id = ?
+    `).run(...values, id, userId);
+    return getBrandKit(db, userId, id)!;
+  })();
+}
+
+// Brand rule for copy prompts; banned phrases are enforced separately as words to avoid
+export const brandCopyGuidance = (kit: BrandKit) =>
+  `**Brand**: The copy is for ${kit.name}.${kit.voice ? ` Follow its voice guidelines: ${kit.voice}` : ""}`;
+
+// Brand rules for image prompts, replacing the generic "on-trend palette" direction
+export function brandImageGuidance(kit: BrandKit) {
+  return [
+    kit.palette.length > 0
+      ? `Colors: Use the ${kit.name} brand palette (${kit.palette.join(", ")}), with ${kit.palette[0]} as the dominant colour.`
+      : "",
+    kit.heading_font || kit.body_font
+      ? `Typography: Any text should be set in ${[kit.heading_font && `${kit.heading_font} for headlines`, kit.body_font && `${kit.body_font} for smaller text`].filter(Boolean).join(" and ")}, or the closest match.`
+      : "",
+    kit.logo_asset_id ? "Logo: Place the provided logo small and unaltered in a bottom corner, on a clean area." : "",
+  ].filter(Boolean).join("\n");
+}
+
+export interface ComplianceIssue {
+  // Index of the pin in the checked list
+  pin: number;
+  kind: "banned_phrase" | "voice" | "visual";
+  message: string;
+}
+
+// Checks that need no model: banned phrases, matched whole and case-insensitively
+export function checkCopyCompliance(kit: BrandKit, pins: { title: string; description: string }[]): ComplianceIssue[] {
+  return pins.flatMap((pin, i) => findAvoidedWords(`${pin.title}\n${pin.description}`, kit.banned_phrases)
+    .map(phrase => ({ pin: i, kind: "banned_phrase" as const, message: `Uses the banned phrase "${phrase}"` })));
+}
+
+// Asks the model whether copy (and optionally an image) fits the kit's voice and look.
+// A fallback origin means the review itself failed, not that the pins are compliant.
+export async function reviewBrandCompliance(
+  kit: BrandKit,
+  pins: { title: string; description: string }[],
+  image: InlineFile | null = null
+): Promise<StructuredResult<ComplianceIssue[] | null>> {
+  const pinLines = pins.map((pin, i) => `${i + 1}. Title: ${pin.title}\n   Description: ${pin.description}`).join("\n");
+  const result = await generateStructured<{ pin: number; kind: "voice" | "visual"; message: string }[] | null>({
+    files: image ? [image] : undefined,
+    prompt: `Act as the brand manager for ${kit.name}. Review these Pinterest pins for brand compliance and list every problem you find. Report only real problems; an empty list means everything is on-brand.
+${kit.voice ? `
+Voice guidelines: ${kit.voice}` : ""}${image && kit.palette.length > 0 ? `
+Brand palette: ${kit.palette.join(", ")}` : ""}${image && (kit.heading_font || kit.body_font) ? `
+Brand fonts: ${[kit.heading_font, kit.body_font].filter(Boolean).join(", ")}` : ""}
+
+Pins:
+${pinLines}
+${image ? "\nThe attached image belongs to pin 1. Check that its colours, any text and any logo fit the brand." : ""}
+For each problem give the pin number, kind ("voice" for copy, "visual" for the image) and a short message saying what to change.`,
+    schema: {
+      type: "array",
+      maxItems: 30,
+      items: {
+        type: "object",
+        properties: {
+          pin: { type: "integer", minimum: 1, maximum: pins.length },
+          kind: { type: "string", enum: image ? ["voice", "visual"] : ["voice"] },
+          message: { type: "string", minLength: 1, maxLength: 300 },
+        },
+        required: ["pin", "kind", "message"],
+      },
+    },
+    fallback: null,
+  });
+  // Pins are numbered from 1 for the model and from 0 everywhere else
+  return { ...result, value: result.value && result.value.map(issue => ({ ...issue, pin: issue.pin - 1 })) };
+}
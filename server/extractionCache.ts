@@ -0,0 +1,118 @@
+import type { Database } from "better-sqlite3";
+import { type ExtractedContent, NOT_MODIFIED, extractorRegistry } from "./extractors";
+
+// Extraction results are cached whole, per URL. Each entry expires after its extractor's
+// TTL; an expired page entry is revalidated with a conditional request before anything
+// is extracted again, so an unchanged page costs one 304 instead of a scrape and a summary.
+
+// Results without a title or description are likely a bad scrape; retry them sooner
+const THIN_RESULT_TTL_HOURS = 1;
+const DEFAULT_TTL_HOURS = 24;
+
+export interface CachedExtraction extends ExtractedContent {
+  from_cache: boolean;
+  cached_at: string;
+  expires_at: string;
+}
+
+const ttlHoursFor = (content: ExtractedContent) => {
+  if (!content.title || !content.description) return THIN_RESULT_TTL_HOURS;
+  return extractorRegistry.get(content.extractor)?.cacheTtlHours ?? DEFAULT_TTL_HOURS;
+};
+
+function saveEntry(db: Database, url: string, content: ExtractedContent) {
+  db.prepare(`
+    INSERT OR REPLACE INTO metadata_cache (url, title, description, image, extractor, content, etag, last_modified, cached_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, datetime('now', ?))
+  `).run(
+    url,
+    content.title,
+    content.description,
+    content.images[0] || "",
+    content.extractor,
+    JSON.stringify(content),
+    content.validators?.etag ?? null,
+    content.validators?.last_modified ?? null,
+    `+${ttlHoursFor(content) * 60} minutes`
+  );
+  return db.prepare("SELECT * FROM metadata_cache WHERE url = ?").get(url) as any;
+}
+
+const fromEntry = (entry: any, fromCache: boolean): CachedExtraction => ({
+  ...JSON.parse(entry.content),
+  from_cache: fromCache,
+  cached_at: entry.cached_at,
+  expires_at: entry.expires_at,
+});
+
+// Cached result while it is fresh, otherwise revalidated or re-extracted. `refresh` skips
+// both the cache and revalidation, for when the cached result itself is wrong.
+export async function extractWithCache(db: Database, url: string, refresh = false): Promise<CachedExtraction> {
+  // Entries written before full results were cached have no content and count as misses
+  const entry = refresh ? null : db.prepare(`
+    SELECT *, expires_at > datetime('now') as fresh FROM metadata_cache WHERE url = ? AND content IS NOT NULL
+  `).get(url) as any;
+  if (entry?.fresh) {
+    console.log(`Cache hit for ${url}`);
+    return fromEntry(entry, true);
+  }
+
+  const validators = entry && (entry.etag || entry.last_modified) ? { etag: entry.etag, last_modified: entry.last_modified } : undefined;
+  console.log(`${validators ? "Revalidating" : "Extracting"} metadata for: ${url}`);
+  const result = await extractorRegistry.extract(url, validators);
+
+  if (result === NOT_MODIFIED) {
+    const content = JSON.parse(entry.content) as ExtractedContent;
+    db.prepare("UPDATE metadata_cache SET cached_at = CURRENT_TIMESTAMP, expires_at = datetime('now', ?) WHERE url = ?")
+      .run(`+${ttlHoursFor(content) * 60} minutes`, url);
+    return fromEntry(db.prepare("SELECT * FROM metadata_cache WHERE url = ?").get(url), true);
+  }
+  return fromEntry(saveEntry(db, url, result), false);
+}
+
+export function inspectCacheEntry(db: Database, url: string) {
+  const entry = db.prepare("SELECT * FROM metadata_cache WHERE url = ?").get(url) as any;
+  if (!entry) return null;
+  return {
+    url: entry.url,
+    extractor: entry.extractor,
+    etag: entry.etag,
+    last_modified: entry.last_modified,
+    cached_at: entry.cached_at,
+    expires_at: entry.expires_at,
+    content: entry.content ? JSON.parse(entry.content) : null,
+  };
+}
+
+export function listCacheEntries(db: Database, query = "", limit = 50) {
+  return db.prepare(`
+    SELECT url, title, extractor, etag IS NOT NULL OR last_modified IS NOT NULL as revalidates, cached_at, expires_at,
+           expires_at <= datetime('now') as expired
+    FROM metadata_cache
+    WHERE url LIKE ?
+    ORDER BY cached_at DESC
+    LIMIT ?
+  `).all(`%${query}%`, limit).map((entry: any) => ({ ...entry, revalidates: !!entry.revalidates, expired: !!entry.expired }));
+}
+
+// Removes one URL, every URL on a host (and its subdomains), or everything
+export function purgeCache(db: Database, target: { url?: string; host?: string; all?: boolean }) {
+  if (target.url) return db.prepare("DELETE FROM metadata_cache WHERE url = ?").run(target.url).changes;
+  if (target.host) {
+    const host = target.host.toLowerCase();
+    const urls = (db.prepare("SELECT url FROM metadata_cache").all() as { url: string }[])
+      .map(entry => entry.url)
+      .filter(url => {
+        try {
+          const hostname = new URL(url).hostname.toLowerCase();
+          return hostname === host || hostname.endsWith(`.${host}`);
+        } catch (e) {
+          return false;
+        }
+      });
+    const remove = db.prepare("DELETE FROM metadata_cache WHERE url = ?");
+    return db.transaction(() => urls.reduce((count, url) => count + remove.run(url).changes, 0))();
+  }
+  if (target.all) return db.prepare("DELETE FROM metadata_cache").run().changes;
+  return 0;
+}
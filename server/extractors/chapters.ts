@@ -0,0 +1,116 @@
+// Chapters of a long video, each of which can become its own pin with a deep link to
+// where it starts. They come from the timestamps creators list in the description, or
+// are inferred from the transcript when there are none.
+
+export interface VideoChapter {
+  title: string;
+  start_seconds: number;
+  end_seconds: number | null;
+  // What is said during the chapter, to ground that pin's copy
+  excerpt: string;
+  // Watch link that starts playback at the chapter (&t=)
+  url: string;
+  source: "description" | "transcript";
+}
+
+export interface ChapterMark {
+  title: string;
+  start_seconds: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  // Seconds from the start of the video
+  offset: number;
+  duration: number;
+}
+
+export const MAX_CHAPTERS = 12;
+const MAX_EXCERPT_CHARS = 1500;
+// Videos shorter than this aren't worth splitting unless the creator did it themselves
+export const MIN_INFERRED_VIDEO_SECONDS = 5 * 60;
+const INFERRED_CHAPTER_SECONDS = 3 * 60;
+
+const TIMESTAMP_PATTERN = /^\s*(?:[-•*▶►]\s*)?\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*(?:[-–—:|.]\s*)?(.+?)\s*$/;
+
+// "1:02:03" → 3723
+export function parseTimestamp(value: string) {
+  return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function formatTimestamp(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export const chapterLink = (videoId: string, seconds: number) =>
+  `https://www.youtube.com/watch?v=${videoId}${seconds > 0 ? `&t=${Math.floor(seconds)}s` : ""}`;
+
+// Same rules YouTube uses to show chapters: the list starts at 0:00, has at least three
+// entries and runs in ascending order. Pure so it can run against saved descriptions.
+export function parseDescriptionChapters(description: string): ChapterMark[] {
+  const marks: ChapterMark[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP_PATTERN);
+    if (!match) continue;
+    const start = parseTimestamp(match[1]);
+    if (marks.length > 0 && start <= marks[marks.length - 1].start_seconds) continue;
+    marks.push({ title: match[2], start_seconds: start });
+  }
+  return marks.length >= 3 && marks[0].start_seconds === 0 ? marks : [];
+}
+
+// Fallback when the model can't outline the transcript: evenly sized parts, cut at the nearest segment
+export function evenChapterMarks(segments: TranscriptSegment[]): ChapterMark[] {
+  if (segments.length === 0) return [];
+  const last = segments[segments.length - 1];
+  const total = last.offset + last.duration;
+  const count = Math.min(MAX_CHAPTERS, Math.max(2, Math.round(total / INFERRED_CHAPTER_SECONDS)));
+  const marks: ChapterMark[] = [];
+  for (let i = 0; i < count; i++) {
+    const target = (total / count) * i;
+    const start = i === 0 ? 0 : Math.floor((segments.find(s => s.offset >= target) || last).offset);
+    if (marks.some(mark => mark.start_seconds === start)) continue;
+    marks.push({ title: `Part ${marks.length + 1}`, start_seconds: start });
+  }
+  return marks;
+}
+
+// Transcript as "[m:ss] text" lines, one roughly every 30 seconds, for the model to outline
+export function timestampedTranscript(segments: TranscriptSegment[], maxChars = 20000) {
+  const lines: string[] = [];
+  let current: string[] = [];
+  let lineStart = 0;
+  for (const segment of segments) {
+    if (current.length > 0 && segment.offset - lineStart >= 30) {
+      lines.push(`[${formatTimestamp(lineStart)}] ${current.join(" ")}`);
+      current = [];
+    }
+    if (current.length === 0) lineStart = segment.offset;
+    current.push(segment.text);
+  }
+  if (current.length > 0) lines.push(`[${formatTimestamp(lineStart)}] ${current.join(" ")}`);
+  return lines.join("\n").substring(0, maxChars);
+}
+
+// Turns chapter starts into full chapters with end times, transcript excerpts and deep links
+export function buildChapters(videoId: string, marks: ChapterMark[], segments: TranscriptSegment[], source: VideoChapter["source"]): VideoChapter[] {
+  return marks.slice(0, MAX_CHAPTERS).map((mark, i) => {
+    const end = marks[i + 1]?.start_seconds ?? null;
+    const excerpt = segments
+      .filter(s => s.offset >= mark.start_seconds && (end === null || s.offset < end))
+      .map(s => s.text)
+      .join(" ")
+      .substring(0, MAX_EXCERPT_CHARS);
+    return {
+      title: mark.title.trim(),
+      start_seconds: mark.start_seconds,
+      end_seconds: end,
+      excerpt,
+      url: chapterLink(videoId, mark.start_seconds),
+      source,
+    };
+  });
+}
@@ -0,0 +1,66 @@
+import type { VideoChapter } from "./chapters";
+import type { StructuredData } from "./jsonLd";
+
+export type ContentType = "video" | "image" | "article" | "recipe" | "product" | "howto" | "website";
+
+// What every extractor hands back, whatever the platform. `raw` keeps the source
+// payload (oEmbed JSON, API snippet, meta tags) for debugging and later enrichment.
+export interface ExtractedContent {
+  title: string;
+  description: string;
+  images: string[];
+  tags: string[];
+  author: string | null;
+  published_at: string | null;
+  content_type: ContentType;
+  // schema.org details (ingredients, price, steps...) when the page publishes them
+  structured: StructuredData | null;
+  // Chapters of a long video, each a candidate pin with its own deep link
+  chapters: VideoChapter[];
+  extractor: string;
+  // HTTP validators of the fetched page, so the cache can revalidate it with a conditional request
+  validators: CacheValidators | null;
+  raw: unknown;
+}
+
+export interface CacheValidators {
+  etag: string | null;
+  last_modified: string | null;
+}
+
+// Returned instead of content when a conditional request says the cached copy is still current
+export const NOT_MODIFIED = Symbol("not_modified");
+
+export interface Extractor {
+  name: string;
+  // Higher runs first; the generic page extractor sits at 0 and matches everything
+  priority: number;
+  timeoutMs: number;
+  // How long a result stays cached before it is revalidated or extracted again
+  cacheTtlHours: number;
+  matches(url: URL): boolean;
+  // Null means "nothing here for me" and lets the next matching extractor try.
+  // Extractors that fetch the page themselves may honour `validators` and answer NOT_MODIFIED.
+  extract(url: URL, signal: AbortSignal, validators?: CacheValidators): Promise<ExtractedContent | typeof NOT_MODIFIED | null>;
+}
+
+// Fills defaults, trims text and drops empty or duplicate images and tags
+export function normalizeContent(extractor: string, content: Partial<ExtractedContent>): ExtractedContent {
+  const clean = (values?: (string | null | undefined)[]) =>
+    [...new Set((values || []).map(value => (value || "").trim()).filter(Boolean))];
+  return {
+    title: (content.title || "").trim(),
+    // Room for a "SUMMARY:" digest ahead of the original description
+    description: (content.description || "").trim().substring(0, 2000),
+    images: clean(content.images),
+    tags: clean(content.tags),
+    author: content.author?.trim() || null,
+    published_at: content.published_at || null,
+    content_type: content.content_type || "website",
+    structured: content.structured ?? null,
+    chapters: content.chapters ?? [],
+    extractor,
+    validators: content.validators ?? null,
+    raw: content.raw ?? null,
+  };
+}
@@ -0,0 +1,115 @@
+import * as cheerio from "cheerio";
+
+export interface ImageCandidate {
+  url: string;
+  width: number | null;
+  height: number | null;
+  source: "meta" | "json_ld" | "body";
+}
+
+// Images the page promotes itself, with whatever size it declares for them
+export interface PromotedImages {
+  urls: string[];
+  width: number | null;
+  height: number | null;
+  source: ImageCandidate["source"];
+}
+
+const MIN_DIMENSION = 200;
+const MAX_CANDIDATES = 12;
+
+// Icons, avatars, UI chrome and analytics beacons never make a good pin
+const JUNK_PATTERN = /(^|[\/_.-])(icon|favicon|logo|sprite|avatar|gravatar|emoji|badge|spinner|loader|spacer|blank|pixel|1x1|tracking|beacon|ads?)([\/_.-]|$)/i;
+const TRACKING_HOSTS = /(^|\.)(doubleclick\.net|google-analytics\.com|googletagmanager\.com|facebook\.com|scorecardresearch\.com|quantserve\.com|pixel\.[a-z.]+)$/i;
+
+export const toNumber = (value?: string | null) => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Largest entry of a srcset, by width descriptor, falling back to pixel density
+function largestFromSrcset(srcset?: string) {
+  if (!srcset) return null;
+  const entries = srcset.split(",").map(entry => {
+    const [url, descriptor = ""] = entry.trim().split(/\s+/);
+    const size = parseFloat(descriptor) || 1;
+    return { url, width: descriptor.endsWith("w") ? size : null, size };
+  }).filter(entry => entry.url);
+  return entries.sort((a, b) => b.size - a.size)[0] || null;
+}
+
+const absolutize = (src: string, pageUrl: string) => {
+  if (!src.trim()) return null;
+  try {
+    const url = new URL(src.trim(), pageUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const isJunk = (candidate: ImageCandidate) => {
+  const url = new URL(candidate.url);
+  if (TRACKING_HOSTS.test(url.hostname) || JUNK_PATTERN.test(url.pathname) || /\.svg$/i.test(url.pathname)) return true;
+  return (candidate.width !== null && candidate.width < MIN_DIMENSION)
+    || (candidate.height !== null && candidate.height < MIN_DIMENSION);
+};
+
+// Bigger is better, and Pinterest favours tall 2:3 images over wide ones.
+// Images the page itself promotes (og:image, JSON-LD) get a head start.
+const scoreCandidate = (candidate: ImageCandidate) => {
+  let score = candidate.source === "meta" ? 3 : candidate.source === "json_ld" ? 2 : 0;
+  if (candidate.width && candidate.height) {
+    score += Math.log2((candidate.width * candidate.height) / (MIN_DIMENSION * MIN_DIMENSION));
+    const ratio = candidate.height / candidate.width;
+    score += ratio >= 1.2 ? 3 - Math.abs(ratio - 1.5) : ratio >= 0.9 ? 1 : 0;
+  } else if (candidate.width) {
+    score += Math.log2(candidate.width / MIN_DIMENSION);
+  }
+  return score;
+};
+
+// Collects every usable image on a page: the promoted ones passed in (meta tags,
+// JSON-LD) plus <img>/srcset in the article body. Pure so it can run against saved pages.
+export function collectImageCandidates(html: string, pageUrl: string, promoted: PromotedImages[] = []): ImageCandidate[] {
+  const $ = cheerio.load(html);
+  const candidates: ImageCandidate[] = [];
+
+  for (const group of promoted) {
+    for (const url of group.urls) {
+      candidates.push({ url, width: group.width, height: group.height, source: group.source });
+    }
+  }
+
+  // Article content first; the whole body only when the page has no obvious main region
+  const scope = $("article, main, [itemprop='articleBody'], .entry-content, .post-content");
+  const images = (scope.length > 0 ? scope : $("body")).find("img");
+  images.each((_, el) => {
+    const img = $(el);
+    const fromSrcset = largestFromSrcset(img.attr("srcset") || img.attr("data-srcset"));
+    const src = fromSrcset?.url || img.attr("data-src") || img.attr("data-lazy-src") || img.attr("src");
+    if (!src) return;
+    const width = toNumber(img.attr("width"));
+    const height = toNumber(img.attr("height"));
+    candidates.push({
+      url: src,
+      // A srcset width beats the layout width; keep the declared aspect ratio for the height
+      width: fromSrcset?.width || width,
+      height: fromSrcset?.width && width && height ? Math.round(fromSrcset.width * height / width) : height,
+      source: "body",
+    });
+  });
+
+  const seen = new Set<string>();
+  return candidates
+    .map(candidate => ({ ...candidate, url: absolutize(candidate.url, pageUrl) }))
+    .filter((candidate): candidate is ImageCandidate => {
+      if (!candidate.url || seen.has(candidate.url)) return false;
+      seen.add(candidate.url);
+      return !isJunk(candidate as ImageCandidate);
+    })
+    .map(candidate => ({ candidate, score: scoreCandidate(candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+    .map(entry => entry.candidate);
+}
@@ -0,0 +1,69 @@
+import { FetchError } from "../safeFetch";
+import { type CacheValidators, type ExtractedContent, type Extractor, NOT_MODIFIED } from "./content";
+import { instagramExtractor } from "./instagram";
+import { openGraphExtractor } from "./openGraph";
+import { tiktokExtractor } from "./tiktok";
+import { youtubeExtractor } from "./youtube";
+
+export type { CacheValidators, ContentType, ExtractedContent, Extractor } from "./content";
+export { NOT_MODIFIED, normalizeContent } from "./content";
+export type { StructuredData } from "./jsonLd";
+
+async function runWithTimeout(extractor: Extractor, url: URL, validators?: CacheValidators) {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new FetchError(`${extractor.name} extractor timed out after ${extractor.timeoutMs}ms`, "TIMEOUT"));
+    }, extractor.timeoutMs);
+  });
+  try {
+    return await Promise.race([extractor.extract(url, controller.signal, validators), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class ExtractorRegistry {
+  private extractors: Extractor[] = [];
+
+  register(extractor: Extractor) {
+    this.extractors = [...this.extractors.filter(e => e.name !== extractor.name), extractor]
+      .sort((a, b) => b.priority - a.priority);
+    return this;
+  }
+
+  list() {
+    return [...this.extractors];
+  }
+
+  get(name: string) {
+    return this.extractors.find(e => e.name === name) || null;
+  }
+
+  // Tries every matching extractor from highest priority down and returns the first
+  // result with a title or an image. Throws the last failure when none produced one.
+  // With `validators` from a cached result, an unchanged page comes back as NOT_MODIFIED.
+  async extract(rawUrl: string, validators?: CacheValidators): Promise<ExtractedContent | typeof NOT_MODIFIED> {
+    const url = new URL(rawUrl);
+    let lastError: any = null;
+    for (const extractor of this.extractors.filter(e => e.matches(url))) {
+      try {
+        const content = await runWithTimeout(extractor, url, validators);
+        if (content === NOT_MODIFIED) return content;
+        if (content && (content.title || content.images.length > 0)) return content;
+      } catch (e: any) {
+        console.error(`${extractor.name} extractor failed for ${rawUrl}:`, e.message);
+        lastError = e;
+      }
+    }
+    throw lastError || new Error("No metadata found");
+  }
+}
+
+export const extractorRegistry = new ExtractorRegistry()
+  .register(youtubeExtractor)
+  .register(instagramExtractor)
+  .register(tiktokExtractor)
+  .register(openGraphExtractor);
@@ -0,0 +1,48 @@
+import { politeFetch } from "../politeFetch";
+import { fetchJson, responseText } from "../safeFetch";
+import { type Extractor, normalizeContent } from "./content";
+import { parseMetaTags } from "./openGraph";
+
+export const instagramExtractor: Extractor = {
+  name: "instagram",
+  priority: 100,
+  timeoutMs: 15000,
+  cacheTtlHours: 24,
+  matches: (url) => /(^|\.)instagram\.com$/.test(url.hostname),
+  async extract(url, signal) {
+    try {
+      console.log(`Processing Instagram URL: ${url}`);
+
+      // Strategy 1: OEmbed (Works for public posts)
+      try {
+        const oembedUrl = `https://api.instagram.com/oembed?url=${encodeURIComponent(url.toString())}&omitscript=true`;
+        const data = await fetchJson(oembedUrl, { signal });
+        return normalizeContent(this.name, {
+          title: data.title || "Instagram Post",
+          description: data.title || "Check out this post on Instagram",
+          images: [data.thumbnail_url],
+          author: data.author_name,
+          content_type: "image",
+          raw: data,
+        });
+      } catch (e) {
+        console.log("IG OEmbed failed");
+      }
+
+      // Strategy 2: Scrape the page, if robots.txt allows it
+      const html = responseText(await politeFetch(url.toString(), {
+        expect: "html",
+        headers: { 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+        signal,
+      }));
+
+      // Instagram pages only carry useful Open Graph tags, so the title, description and image are all we keep
+      const { title, description, images, raw } = parseMetaTags(html);
+      const content = normalizeContent(this.name, { title, description, images: images?.slice(0, 1), content_type: "image", raw });
+      return content.title || content.images.length > 0 ? content : null;
+    } catch (e) {
+      console.error("Instagram extraction error:", e);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,137 @@
+import * as cheerio from "cheerio";
+
+export type StructuredType = "recipe" | "product" | "article" | "howto";
+
+// The schema.org fields worth putting in pin copy, already in human-readable form
+export interface StructuredData {
+  type: StructuredType;
+  name: string | null;
+  description: string | null;
+  images: string[];
+  author: string | null;
+  published_at: string | null;
+  ingredients?: string[];
+  prep_time?: string | null;
+  cook_time?: string | null;
+  total_time?: string | null;
+  servings?: string | null;
+  price?: string | null;
+  availability?: string | null;
+  brand?: string | null;
+  steps?: string[];
+}
+
+const TYPE_MAP: Record<string, StructuredType> = {
+  Recipe: "recipe",
+  Product: "product",
+  HowTo: "howto",
+  Article: "article",
+  BlogPosting: "article",
+  NewsArticle: "article",
+};
+
+// Recipes and products say the most about a page, so they win over a generic Article on the same page
+const TYPE_PRIORITY: StructuredType[] = ["recipe", "product", "howto", "article"];
+
+const asArray = <T,>(value: T | T[] | undefined | null): T[] => value == null ? [] : Array.isArray(value) ? value : [value];
+
+const text = (value: any): string | null => {
+  if (value == null) return null;
+  if (typeof value === "string") return cheerio.load(value).text().trim() || null;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) return text(value[0]);
+  return text(value.name ?? value.text ?? value["@value"]);
+};
+
+const texts = (value: any) => asArray(value).map(text).filter((v): v is string => !!v);
+
+const imageUrls = (value: any): string[] =>
+  asArray(value).map((image: any) => typeof image === "string" ? image : image?.url || image?.contentUrl).filter(Boolean);
+
+// ISO 8601 durations ("PT1H20M") to "1 hour 20 minutes"
+export function formatDuration(value: any): string | null {
+  const match = typeof value === "string" && value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes] = match.map(Number);
+  const parts = [
+    days && `${days} day${days === 1 ? "" : "s"}`,
+    hours && `${hours} hour${hours === 1 ? "" : "s"}`,
+    minutes && `${minutes} minute${minutes === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+// HowTo and Recipe steps may be plain strings, HowToStep objects or HowToSection groups
+const stepTexts = (value: any): string[] =>
+  asArray(value).flatMap((step: any) => step?.["@type"] === "HowToSection" ? stepTexts(step.itemListElement) : texts(step));
+
+const availabilityLabel = (value: any) => {
+  const raw = text(value);
+  if (!raw) return null;
+  return raw.replace(/^https?:\/\/schema\.org\//, "").replace(/([a-z])([A-Z])/g, "$1 $2");
+};
+
+function toStructured(node: any, type: StructuredType): StructuredData {
+  const base: StructuredData = {
+    type,
+    name: text(node.name ?? node.headline),
+    description: text(node.description),
+    images: imageUrls(node.image),
+    author: texts(node.author).join(", ") || null,
+    published_at: text(node.datePublished),
+  };
+
+  if (type === "recipe") {
+    return {
+      ...base,
+      ingredients: texts(node.recipeIngredient ?? node.ingredients),
+      prep_time: formatDuration(node.prepTime),
+      cook_time: formatDuration(node.cookTime),
+      total_time: formatDuration(node.totalTime),
+      servings: text(node.recipeYield),
+      steps: stepTexts(node.recipeInstructions),
+    };
+  }
+  if (type === "product") {
+    const offer = asArray(node.offers).flatMap((o: any) => o?.["@type"] === "AggregateOffer" ? [{ ...o, price: o.lowPrice ?? o.price }] : [o])[0] || {};
+    const price = text(offer.price);
+    return {
+      ...base,
+      price: price ? [price, text(offer.priceCurrency)].filter(Boolean).join(" ") : null,
+      availability: availabilityLabel(offer.availability),
+      brand: text(node.brand),
+    };
+  }
+  if (type === "howto") {
+    return {
+      ...base,
+      total_time: formatDuration(node.totalTime),
+      steps: stepTexts(node.step),
+    };
+  }
+  return base;
+}
+
+// Finds the most useful schema.org node in a page's ld+json blocks, looking inside @graph wrappers.
+// Pure so it can run against saved pages.
+export function parseJsonLd(html: string): StructuredData | null {
+  const $ = cheerio.load(html);
+  const nodes: any[] = [];
+  $("script[type='application/ld+json']").each((_, el) => {
+    try {
+      const data = JSON.parse($(el).text());
+      for (const item of asArray(data)) {
+        nodes.push(item, ...asArray(item?.["@graph"]));
+      }
+    } catch (e) {
+      // Sites ship broken JSON-LD often enough that one bad block shouldn't stop the rest
+    }
+  });
+
+  const typed = nodes
+    .map(node => ({ node, type: asArray(node?.["@type"]).map((t: string) => TYPE_MAP[t]).find(Boolean) }))
+    .filter((entry): entry is { node: any; type: StructuredType } => !!entry.type)
+    .sort((a, b) => TYPE_PRIORITY.indexOf(a.type) - TYPE_PRIORITY.indexOf(b.type));
+
+  return typed.length > 0 ? toStructured(typed[0].node, typed[0].type) : null;
+}
@@ -0,0 +1,120 @@
+import * as cheerio from "cheerio";
+import { politeFetch } from "../politeFetch";
+import { responseText } from "../safeFetch";
+import { type ContentType, type ExtractedContent, type Extractor, NOT_MODIFIED, normalizeContent } from "./content";
+import { collectImageCandidates, toNumber } from "./images";
+import { parseJsonLd } from "./jsonLd";
+import { type ArticleContent, extractArticle } from "./readability";
+import { summarizeForPins } from "./summarize";
+
+const PAGE_HEADERS = {
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+const contentTypeFor = (ogType?: string): ContentType => {
+  if (!ogType) return "website";
+  if (ogType.startsWith("video")) return "video";
+  if (ogType === "article") return "article";
+  return "website";
+};
+
+// Open Graph, Twitter card and plain HTML meta tags. Pure so it can run against saved pages.
+export function parseMetaTags(html: string): Partial<ExtractedContent> {
+  const $ = cheerio.load(html);
+  const meta = (selector: string) => $(selector).attr("content") || "";
+  const metaAll = (selector: string) => $(selector).map((_, el) => $(el).attr("content") || "").get();
+
+  const tags = metaAll("meta[property='article:tag']");
+  const keywords = meta("meta[name='keywords']");
+
+  return {
+    title: meta("meta[property='og:title']") ||
+           meta("meta[name='twitter:title']") ||
+           $("title").text(),
+    description: meta("meta[property='og:description']") ||
+                 meta("meta[name='twitter:description']") ||
+                 meta("meta[name='description']") ||
+                 $("p").first().text(),
+    images: [
+      ...metaAll("meta[property='og:image']"),
+      meta("meta[name='twitter:image']"),
+      $("link[rel='image_src']").attr("href") || "",
+    ],
+    tags: tags.length > 0 ? tags : keywords.split(","),
+    author: meta("meta[name='author']") || meta("meta[property='article:author']") || null,
+    published_at: meta("meta[property='article:published_time']") || null,
+    content_type: contentTypeFor(meta("meta[property='og:type']")),
+    raw: Object.fromEntries(
+      $("meta[property^='og:'], meta[name^='twitter:']").map((_, el) => [[$(el).attr("property") || $(el).attr("name"), $(el).attr("content")]]).get()
+    ),
+  };
+}
+
+const MAX_KEY_POINTS = 8;
+
+// Without the model, the article's own subheadings (or list entries for a listicle) stand in as key points
+const outlineDigest = (article: ArticleContent, title: string) => {
+  const headings = article.headings.filter(heading => heading.toLowerCase() !== title.trim().toLowerCase());
+  const points = (headings.length >= 2 ? headings : article.list_items).slice(0, MAX_KEY_POINTS);
+  return points.length > 0 ? `Key points:\n${points.map(point => `- ${point}`).join("\n")}` : null;
+};
+
+// Grounds the description in the article body: a "SUMMARY:" digest ahead of the page's own description
+async function describeArticle(html: string, title: string, description: string) {
+  const article = extractArticle(html);
+  if (!article) return description;
+  const digest = await summarizeForPins("article", article.text) ?? outlineDigest(article, title);
+  return digest ? `SUMMARY: ${digest}\n\nORIGINAL DESCRIPTION: ${description}` : description;
+}
+
+export const openGraphExtractor: Extractor = {
+  name: "open_graph",
+  priority: 0,
+  // Page fetch plus a model summary of the article body
+  timeoutMs: 30000,
+  // Short, because revalidating an unchanged page is a cheap conditional request
+  cacheTtlHours: 6,
+  matches: () => true,
+  async extract(url, signal, cached) {
+    const conditional: Record<string, string> = {};
+    if (cached?.etag) conditional["If-None-Match"] = cached.etag;
+    if (cached?.last_modified) conditional["If-Modified-Since"] = cached.last_modified;
+    const response = await politeFetch(url.toString(), { expect: "html", headers: { ...PAGE_HEADERS, ...conditional }, signal, timeoutMs: 10000 });
+    if (response.status === 304) return NOT_MODIFIED;
+
+    const html = responseText(response);
+    const validators = { etag: response.headers["etag"] || null, last_modified: response.headers["last-modified"] || null };
+    const meta = parseMetaTags(html);
+    const structured = parseJsonLd(html);
+
+    // og:image:width/height describe the first og:image only
+    const [primary, ...otherMeta] = meta.images || [];
+    const raw = meta.raw as Record<string, string>;
+    const images = collectImageCandidates(html, response.url, [
+      { urls: primary ? [primary] : [], width: toNumber(raw["og:image:width"]), height: toNumber(raw["og:image:height"]), source: "meta" },
+      { urls: otherMeta, width: null, height: null, source: "meta" },
+      { urls: structured?.images || [], width: null, height: null, source: "json_ld" },
+    ]).map(candidate => candidate.url);
+
+    if (!structured) {
+      return normalizeContent(this.name, { ...meta, description: await describeArticle(html, meta.title || "", meta.description || ""), images, validators });
+    }
+
+    // Meta tags are written for sharing, so they keep precedence; JSON-LD fills the gaps.
+    // Product pages are mostly specs and reviews, so only editorial content gets an article digest.
+    const description = meta.description || structured.description || "";
+    const title = meta.title || structured.name || "";
+    return normalizeContent(this.name, {
+      ...meta,
+      title,
+      description: structured.type === "product" ? description : await describeArticle(html, title, description),
+      images,
+      author: meta.author || structured.author,
+      published_at: meta.published_at || structured.published_at,
+      content_type: structured.type,
+      structured,
+      validators,
+    });
+  },
+};
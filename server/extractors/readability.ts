@@ -0,0 +1,119 @@
+import * as cheerio from "cheerio";
+
+export interface ArticleContent {
+  // Body text with one paragraph, heading or list item per line
+  text: string;
+  headings: string[];
+  list_items: string[];
+  word_count: number;
+}
+
+const MIN_WORDS = 120;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_OUTLINE_ITEMS = 30;
+
+// Page chrome that is never article content
+const CHROME_SELECTOR = [
+  "script", "style", "noscript", "template", "iframe", "svg", "form", "button", "select", "textarea",
+  "nav", "header", "footer", "aside", "[role='navigation']", "[role='banner']", "[role='contentinfo']",
+  "[role='complementary']", "[aria-hidden='true']", "[hidden]",
+].join(", ");
+
+// Class/id fragments for ads, comments, share bars, related-post rails and the like
+const NOISE_PATTERN = /(^|[\s_-])(ad|ads|advert\w*|sponsor\w*|promo\w*|banner|comment\w*|disqus|respond|reply|share|sharing|social|related|recommend\w*|newsletter|subscribe|signup|popup|modal|cookie\w*|consent|breadcrumbs?|sidebar|widget|menu|pagination|pager|author-bio|byline|tags?|meta)([\s_-]|$)/i;
+// Containers named like these are kept even when they also match the noise pattern ("content has-sidebar"),
+// except for comment threads
+const CANDIDATE_PATTERN = /article|body|content|main|post|entry|story/i;
+// Regions readable pages mark as the article itself
+const MAIN_SELECTOR = "[itemprop='articleBody'], article, main, [role='main'], .entry-content, .post-content, .article-content, .article-body";
+const BLOCK_SELECTOR = "h1, h2, h3, h4, p, li, blockquote, pre";
+
+const squash = (text: string) => text.replace(/\s+/g, " ").trim();
+const wordCount = (text: string) => (text.match(/\S+/g) || []).length;
+
+// Share of a node's text that sits inside links; navigation blocks are mostly links
+const linkDensity = (node: cheerio.Cheerio<any>) => {
+  const length = squash(node.text()).length;
+  if (length === 0) return 1;
+  return squash(node.find("a").text()).length / length;
+};
+
+// Readability-style scoring: every substantial paragraph credits its parent fully and its
+// grandparent by half; the best container, discounted for link density, holds the article.
+function bestContainer($: cheerio.CheerioAPI) {
+  const scores = new Map<any, number>();
+  $("p, pre, blockquote, li").each((_, el) => {
+    const text = squash($(el).text());
+    if (text.length < 25) return;
+    const score = 1 + text.split(/[,，]/).length + Math.min(3, Math.floor(text.length / 100));
+    const parent = $(el).parent();
+    const grandparent = parent.parent();
+    if (parent.length) scores.set(parent[0], (scores.get(parent[0]) || 0) + score);
+    if (grandparent.length) scores.set(grandparent[0], (scores.get(grandparent[0]) || 0) + score / 2);
+  });
+
+  let best: any = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($(el)));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best ? $(best) : null;
+}
+
+// Main article text of a generic page with navigation, ads and comments stripped, plus
+// its headings and list items as an outline. Null when the page has no real article body.
+// Pure so it can run against saved pages.
+export function extractArticle(html: string): ArticleContent | null {
+  const $ = cheerio.load(html);
+  $(CHROME_SELECTOR).remove();
+  $("[class], [id]").each((_, el) => {
+    const node = $(el);
+    const label = `${node.attr("class") || ""} ${node.attr("id") || ""}`;
+    // Never drop the document root or a region that is itself marked as the article
+    if (el.tagName === "body" || el.tagName === "html" || node.is(MAIN_SELECTOR)) return;
+    if (NOISE_PATTERN.test(label) && (!CANDIDATE_PATTERN.test(label) || /comment/i.test(label))) node.remove();
+  });
+
+  const marked = $(MAIN_SELECTOR).toArray()
+    .map(el => $(el))
+    .filter(node => wordCount(node.text()) >= MIN_WORDS)
+    .sort((a, b) => wordCount(a.text()) - wordCount(b.text()))[0];
+  const root = marked || bestContainer($);
+  if (!root) return null;
+
+  const lines: string[] = [];
+  const headings: string[] = [];
+  const listItems: string[] = [];
+  root.find(BLOCK_SELECTOR).each((_, el) => {
+    const node = $(el);
+    // Only the outermost block is read; a <p> inside an <li> would otherwise appear twice
+    if (node.parents(BLOCK_SELECTOR).length > 0 && root.find(node.parents(BLOCK_SELECTOR)).length > 0) return;
+    const text = squash(node.text());
+    if (!text) return;
+    if (/^h[1-4]$/.test(el.tagName)) {
+      headings.push(text);
+      lines.push(`## ${text}`);
+    } else if (el.tagName === "li") {
+      if (linkDensity(node) > 0.5) return;
+      listItems.push(text);
+      lines.push(`- ${text}`);
+    } else {
+      lines.push(text);
+    }
+  });
+
+  const text = lines.join("\n");
+  const words = wordCount(text);
+  if (words < MIN_WORDS) return null;
+
+  return {
+    text: text.substring(0, MAX_TEXT_LENGTH),
+    headings: [...new Set(headings)].slice(0, MAX_OUTLINE_ITEMS),
+    list_items: [...new Set(listItems)].slice(0, MAX_OUTLINE_ITEMS),
+    word_count: words,
+  };
+}
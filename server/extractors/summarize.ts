@@ -0,0 +1,68 @@
+import { generateStructured, getLlm } from "../llm";
+import { type ChapterMark, MAX_CHAPTERS, parseTimestamp } from "./chapters";
+
+const MAX_SOURCE_CHARS = 10000;
+const TIMESTAMP = /^(\d+:)?\d+:\d{2}$/;
+
+const SOURCE_PROMPTS = {
+  transcript: `Summarize this video transcript in 3-4 concise, value-packed sentences suitable for a Pinterest description. Focus on the key tips, "how-to" aspects, and viral hooks.`,
+  article: `Summarize this article in 2-3 concise, value-packed sentences suitable for a Pinterest description, then list its key points (the actual tips, steps or list entries it covers, at most 8) as "- " bullets. Use only facts stated in the article.`,
+};
+
+// Key-points digest for grounding pin copy in what a video or article actually says.
+// Returns null when the model is unavailable so callers fall back to the page's own description.
+export async function summarizeForPins(kind: keyof typeof SOURCE_PROMPTS, source: string): Promise<string | null> {
+  try {
+    const text = await getLlm().generateText({
+      prompt: `Act as a Pinterest content strategist. ${SOURCE_PROMPTS[kind]}
+
+      ${kind === "transcript" ? "Transcript" : "Article"}: ${source.substring(0, MAX_SOURCE_CHARS)}`
+    });
+    return text.trim() || null;
+  } catch (e) {
+    console.error("Summary generation failed", e);
+    return null;
+  }
+}
+
+// Splits a timestamped transcript ("[m:ss] text" lines) into topic chapters.
+// Null when the model is unavailable or returns nothing usable.
+export async function outlineTranscript(timestamped: string): Promise<ChapterMark[] | null> {
+  try {
+    const { value: chapters } = await generateStructured<{ title: string; start: string }[]>({
+      prompt: `Split this video transcript into 3-${MAX_CHAPTERS} chapters, one per distinct tip, step or topic. Give each a short, specific title (under 60 characters) and the timestamp where it starts, copied from the transcript. The first chapter starts at 0:00.
+
+      Transcript:
+      ${timestamped}`,
+      schema: {
+        type: "array",
+        minItems: 2,
+        maxItems: MAX_CHAPTERS,
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string", minLength: 1, maxLength: 80 },
+            start: { type: "string", description: "Timestamp like 3:25" },
+          },
+          required: ["title", "start"],
+        },
+      },
+      check: chapters => chapters
+        .map((chapter, i) => TIMESTAMP.test(chapter.start) ? "" : `$[${i}].start: "${chapter.start}" is not a timestamp like 3:25`)
+        .filter(Boolean),
+      // The caller splits the video evenly instead
+      fallback: [],
+    });
+    const marks = chapters
+      .filter(chapter => chapter.title && TIMESTAMP.test(chapter.start))
+      .map(chapter => ({ title: chapter.title, start_seconds: parseTimestamp(chapter.start) }))
+      .sort((a, b) => a.start_seconds - b.start_seconds)
+      .filter((mark, i, all) => i === 0 || mark.start_seconds > all[i - 1].start_seconds);
+    if (marks.length < 2) return null;
+    marks[0].start_seconds = 0;
+    return marks;
+  } catch (e) {
+    console.error("Transcript outline failed", e);
+    return null;
+  }
+}
@@ -0,0 +1,30 @@
+import { fetchJson } from "../safeFetch";
+import { type Extractor, normalizeContent } from "./content";
+
+export const tiktokExtractor: Extractor = {
+  name: "tiktok",
+  priority: 100,
+  timeoutMs: 15000,
+  cacheTtlHours: 24,
+  matches: (url) => /(^|\.)tiktok\.com$/.test(url.hostname),
+  async extract(url, signal) {
+    try {
+      console.log(`Processing TikTok URL: ${url}`);
+      // TikTok OEmbed
+      const oembedUrl = `https://www.tiktok.com/oembed?url=${encodeURIComponent(url.toString())}`;
+      const data = await fetchJson(oembedUrl, { signal });
+
+      return normalizeContent(this.name, {
+        title: data.title || "TikTok Video",
+        description: data.title || "Watch this video on TikTok",
+        images: [data.thumbnail_url],
+        author: data.author_name,
+        content_type: "video",
+        raw: data,
+      });
+    } catch (e) {
+      console.error("TikTok extraction error:", e);
+      return null;
+    }
+  },
+};
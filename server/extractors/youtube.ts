@@ -0,0 +1,108 @@
+import { google } from "googleapis";
+import { YoutubeTranscript } from "youtube-transcript";
+import { fetchJson } from "../safeFetch";
+import {
+  type TranscriptSegment,
+  type VideoChapter,
+  MIN_INFERRED_VIDEO_SECONDS,
+  buildChapters,
+  evenChapterMarks,
+  parseDescriptionChapters,
+  timestampedTranscript,
+} from "./chapters";
+import { type Extractor, normalizeContent } from "./content";
+import { outlineTranscript, summarizeForPins } from "./summarize";
+
+const VIDEO_ID_PATTERN = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
+
+export const youtubeExtractor: Extractor = {
+  name: "youtube",
+  priority: 100,
+  // Transcript fetch plus a model summary and chapter outline takes a while
+  timeoutMs: 60000,
+  // Video metadata rarely changes and the summary costs a model call
+  cacheTtlHours: 7 * 24,
+  matches: (url) => /(^|\.)(youtube\.com|youtu\.be)$/.test(url.hostname),
+  async extract(url, signal) {
+    try {
+      const videoIdMatch = url.toString().match(VIDEO_ID_PATTERN);
+      const videoId = videoIdMatch ? videoIdMatch[1] : null;
+      if (!videoId) return null;
+
+      console.log(`Processing YouTube Video: ${videoId}`);
+
+      const youtube = google.youtube({
+        version: 'v3',
+        auth: process.env.YOUTUBE_API_KEY
+      });
+
+      // 1. Fetch Transcript
+      let segments: TranscriptSegment[] = [];
+      try {
+        segments = await YoutubeTranscript.fetchTranscript(videoId);
+      } catch (e) {
+        console.log("Transcript unavailable:", e);
+      }
+
+      // 2. Fetch Metadata via YouTube API
+      let videoSnippet: any = null;
+      let tags: string[] = [];
+      try {
+        const videoResponse = await youtube.videos.list({
+          part: ['snippet', 'contentDetails', 'statistics'],
+          id: [videoId]
+        }, { signal });
+        videoSnippet = videoResponse.data.items?.[0]?.snippet;
+        tags = videoSnippet?.tags || [];
+      } catch (e) {
+        console.error("YouTube API failed, falling back to oEmbed", e);
+        const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
+        const oembedData = await fetchJson(oembedUrl, { signal });
+        videoSnippet = {
+          title: oembedData.title,
+          description: "",
+          channelTitle: oembedData.author_name,
+          thumbnails: { high: { url: oembedData.thumbnail_url } }
+        };
+      }
+
+      // 3. Summarize with the model, and split into chapters: the creator's own timestamps
+      // when the description has them, otherwise inferred from a long enough transcript
+      const transcriptText = segments.map(t => t.text).join(" ");
+      const describedChapters = parseDescriptionChapters(videoSnippet.description || "");
+      const lastSegment = segments[segments.length - 1];
+      const inferChapters = describedChapters.length === 0 && !!lastSegment && lastSegment.offset + lastSegment.duration >= MIN_INFERRED_VIDEO_SECONDS;
+
+      const [summary, outline] = await Promise.all([
+        transcriptText ? summarizeForPins("transcript", transcriptText) : null,
+        inferChapters ? outlineTranscript(timestampedTranscript(segments)) : null,
+      ]);
+
+      let enhancedDescription = videoSnippet.description || "";
+      if (summary) enhancedDescription = `SUMMARY: ${summary}\n\nORIGINAL DESCRIPTION: ${videoSnippet.description}`;
+
+      let chapters: VideoChapter[] = [];
+      if (describedChapters.length > 0) chapters = buildChapters(videoId, describedChapters, segments, "description");
+      else if (inferChapters) chapters = buildChapters(videoId, outline ?? evenChapterMarks(segments), segments, "transcript");
+
+      return normalizeContent(this.name, {
+        title: videoSnippet.title,
+        description: enhancedDescription,
+        images: [
+          videoSnippet.thumbnails?.maxres?.url,
+          videoSnippet.thumbnails?.high?.url,
+          videoSnippet.thumbnails?.default?.url,
+        ],
+        tags,
+        author: videoSnippet.channelTitle,
+        published_at: videoSnippet.publishedAt,
+        content_type: "video",
+        chapters,
+        raw: videoSnippet,
+      });
+    } catch (e) {
+      console.error("YouTube extraction error:", e);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,167 @@
+import type { Database } from "better-sqlite3";
+
+// How pin copy is written: how many variations, in what voice, for whom, in which
+// language and within what lengths. Each user saves their own defaults (a food blog and
+// a finance account want very different copy); a single request can override any of them.
+
+export const TONE_PRESETS = {
+  inspiring: {
+    label: "Inspiring",
+    guidance: `Inspiring, helpful and authoritative yet accessible. Titles may use power words (e.g. "Ultimate", "Secret", "Hack", "Must-Have") when they fit.`,
+  },
+  friendly: {
+    label: "Friendly",
+    guidance: "Warm and conversational, like a friend sharing a tip. Plain words, no hype.",
+  },
+  professional: {
+    label: "Professional",
+    guidance: `Clear, credible and measured. No hype, superlatives or clickbait ("secret", "hack", "you won't believe"); state concrete benefits plainly.`,
+  },
+  playful: {
+    label: "Playful",
+    guidance: "Fun and energetic with light humour and wordplay, while staying clear about what the pin offers.",
+  },
+  luxurious: {
+    label: "Luxurious",
+    guidance: "Elegant and refined. Evocative, sensory language; understated rather than loud.",
+  },
+  educational: {
+    label: "Educational",
+    guidance: "Practical and instructive. Lead with what the reader will learn or be able to do; numbers and steps over adjectives.",
+  },
+} as const;
+
+export const CTA_STYLES = {
+  save: { label: "Save for later", guidance: `End with a call to save the pin, like "Save this for later!".` },
+  click: { label: "Read more", guidance: `End with a call to open the link, like "Tap to read the full guide".` },
+  shop: { label: "Shop", guidance: `End with a call to shop, like "Shop the look".` },
+  watch: { label: "Watch", guidance: `End with a call to watch, like "Watch the full video".` },
+  soft: { label: "Soft", guidance: "End with a gentle invitation rather than a command." },
+  none: { label: "None", guidance: "Don't add a call to action." },
+} as const;
+
+export type TonePreset = keyof typeof TONE_PRESETS;
+export type CtaStyle = keyof typeof CTA_STYLES;
+
+export interface GenerationOptions {
+  variations: number;
+  tone: TonePreset;
+  // Who the copy is for, e.g. "busy parents" or "first-time investors"; empty for a general audience
+  audience: string;
+  language: string;
+  title_max_chars: number;
+  description_min_chars: number;
+  description_max_chars: number;
+  cta_style: CtaStyle;
+  emoji: boolean;
+  // Words and phrases the copy must never contain
+  avoid_words: string[];
+}
+
+export const MAX_VARIATIONS = 10;
+const MAX_AVOID_WORDS = 30;
+// Pinterest's own limits
+const MAX_TITLE_CHARS = 100;
+const MAX_DESCRIPTION_CHARS = 500;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  variations: 5,
+  tone: "inspiring",
+  audience: "",
+  language: "English",
+  title_max_chars: MAX_TITLE_CHARS,
+  description_min_chars: 150,
+  description_max_chars: 400,
+  cta_style: "save",
+  emoji: false,
+  avoid_words: [],
+};
+
+export class GenerationOptionsError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "GenerationOptionsError";
+  }
+}
+
+function wholeNumber(value: unknown, field: string, min: number, max: number) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new GenerationOptionsError(`${field} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function shortText(value: unknown, field: string, max: number) {
+  if (typeof value !== "string") throw new GenerationOptionsError(`${field} must be text`);
+  if (value.trim().length > max) throw new GenerationOptionsError(`${field} can be at most ${max} characters`);
+  return value.trim();
+}
+
+// Applies the fields present in `input` on top of `base`, so a request can change one
+// setting and keep the rest. Throws GenerationOptionsError naming the first bad field.
+export function parseGenerationOptions(input: unknown, base: GenerationOptions = DEFAULT_GENERATION_OPTIONS): GenerationOptions {
+  if (input == null) return base;
+  if (typeof input !== "object" || Array.isArray(input)) throw new GenerationOptionsError("Generation options must be an object");
+  const raw = input as Record<string, unknown>;
+  const options = { ...base };
+
+  if (raw.variations !== undefined) options.variations = wholeNumber(raw.variations, "Variations", 1, MAX_VARIATIONS);
+  if (raw.tone !== undefined) {
+    if (typeof raw.tone !== "string" || !(raw.tone in TONE_PRESETS)) throw new GenerationOptionsError(`Tone must be one of ${Object.keys(TONE_PRESETS).join(", ")}`);
+    options.tone = raw.tone as TonePreset;
+  }
+  if (raw.audience !== undefined) options.audience = shortText(raw.audience, "Audience", 120);
+  if (raw.language !== undefined) options.language = shortText(raw.language, "Language", 40) || DEFAULT_GENERATION_OPTIONS.language;
+  if (raw.title_max_chars !== undefined) options.title_max_chars = wholeNumber(raw.title_max_chars, "Title length", 30, MAX_TITLE_CHARS);
+  if (raw.description_min_chars !== undefined) options.description_min_chars = wholeNumber(raw.description_min_chars, "Minimum description length", 0, MAX_DESCRIPTION_CHARS);
+  if (raw.description_max_chars !== undefined) options.description_max_chars = wholeNumber(raw.description_max_chars, "Description length", 50, MAX_DESCRIPTION_CHARS);
+  if (options.description_min_chars > options.description_max_chars) {
+    throw new GenerationOptionsError("The minimum description length can't be more than the maximum");
+  }
+  if (raw.cta_style !== undefined) {
+    if (typeof raw.cta_style !== "string" || !(raw.cta_style in CTA_STYLES)) throw new GenerationOptionsError(`CTA style must be one of ${Object.keys(CTA_STYLES).join(", ")}`);
+    options.cta_style = raw.cta_style as CtaStyle;
+  }
+  if (raw.emoji !== undefined) {
+    if (typeof raw.emoji !== "boolean") throw new GenerationOptionsError("Emoji must be true or false");
+    options.emoji = raw.emoji;
+  }
+  if (raw.avoid_words !== undefined) {
+    // A list, or one comma-separated string as typed into the form
+    const words = typeof raw.avoid_words === "string" ? raw.avoid_words.split(",") : raw.avoid_words;
+    if (!Array.isArray(words) || words.some(word => typeof word !== "string")) throw new GenerationOptionsError("Words to avoid must be a list of words");
+    const clean = [...new Set(words.map(word => word.trim()).filter(Boolean))];
+    if (clean.length > MAX_AVOID_WORDS) throw new GenerationOptionsError(`List at most ${MAX_AVOID_WORDS} words to avoid`);
+    if (clean.some(word => word.length > 40)) throw new GenerationOptionsError("Each word to avoid can be at most 40 characters");
+    options.avoid_words = clean;
+  }
+  return options;
+}
+
+// Saved defaults are re-parsed over the current defaults, so fields added later get their default value
+export function loadGenerationDefaults(db: Database, userId: number): GenerationOptions {
+  const row = db.prepare("SELECT options FROM generation_defaults WHERE user_id = ?").get(userId) as { options: string } | undefined;
+  if (!row) return DEFAULT_GENERATION_OPTIONS;
+  try {
+    return parseGenerationOptions(JSON.parse(row.options));
+  } catch (e) {
+    console.error(`Ignoring invalid generation defaults for user ${userId}:`, e);
+    return DEFAULT_GENERATION_OPTIONS;
+  }
+}
+
+export function saveGenerationDefaults(db: Database, userId: number, options: GenerationOptions) {
+  db.prepare(`
+    INSERT INTO generation_defaults (user_id, options, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(user_id) DO UPDATE SET options = excluded.options, updated_at = CURRENT_TIMESTAMP
+  `).run(userId, JSON.stringify(options));
+  return options;
+}
+
+// Words to avoid, matched whole and case-insensitively; a phrase matches as written
+export function findAvoidedWords(text: string, avoidWords: string[]) {
+  return avoidWords.filter(word => new RegExp(`(^|[^\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^\\p{L}\\p{N}])`, "iu").test(text));
+}
+
+export const hasEmoji = (text: string) => /\p{Extended_Pictographic}/u.test(text);
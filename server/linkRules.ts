@@ -0,0 +1,63 @@
+import type { Database } from "better-sqlite3";
+import validator from "validator";
+
+// A rule sets one query parameter on outbound pin links. match_value is a domain
+// (subdomains included) or "*" for every link; domain rules win over "*" rules.
+// Values are templates: {keyword} is the trend the copy was written for and
+// {variant} the 1-based position of the pin among its generated variations.
+export const ALL_DOMAINS = "*";
+
+export const DEFAULT_UTM_RULES: Record<string, string> = {
+  utm_source: "pinterest",
+  utm_medium: "social",
+  utm_campaign: "{keyword}",
+  utm_content: "variant-{variant}",
+};
+
+export interface LinkContext {
+  keyword?: string | null;
+  variant?: number | null;
+}
+
+export const isValidLink = (url: string) =>
+  validator.isURL(url, { require_protocol: true, protocols: ["http", "https"] });
+
+const linkDomain = (url: URL) => url.hostname.replace(/^www\./, "").toLowerCase();
+
+// Null when the template needs a value the context doesn't have (e.g. no trend keyword)
+const fillTemplate = (template: string, context: LinkContext) => {
+  const values = new Map([
+    ["keyword", context.keyword?.trim() || ""],
+    ["variant", context.variant ? String(context.variant) : ""],
+  ]);
+  let missing = false;
+  const filled = template.replace(/\{(\w+)\}/g, (_, name) => {
+    const value = values.get(name);
+    if (!value) missing = true;
+    return value || "";
+  }).trim();
+  return missing || !filled ? null : filled;
+};
+
+// Returns the link with the user's rules applied. Unparseable links come back
+// untouched; callers validate with isValidLink before anything is published.
+export function applyLinkRules(db: Database, userId: number, link: string, context: LinkContext = {}) {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch (e) {
+    return link;
+  }
+
+  const domain = linkDomain(url);
+  const rules = db.prepare("SELECT match_value, param, value FROM link_rules WHERE user_id = ?").all(userId) as any[];
+  const matching = rules
+    .filter(rule => rule.match_value === ALL_DOMAINS || domain === rule.match_value || domain.endsWith(`.${rule.match_value}`))
+    .sort((a, b) => Number(a.match_value !== ALL_DOMAINS) - Number(b.match_value !== ALL_DOMAINS));
+
+  for (const rule of matching) {
+    const value = fillTemplate(rule.value, context);
+    if (value) url.searchParams.set(rule.param, value);
+  }
+  return url.toString();
+}
@@ -0,0 +1,40 @@
+import { createFakeProvider } from "./fake";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { LlmError, type LlmProvider } from "./provider";
+
+// Which provider and models to use comes from the environment:
+//   LLM_PROVIDER     gemini (default), openai (any OpenAI-compatible server) or fake (offline fixtures)
+//   LLM_TEXT_MODEL   model for text, JSON and chat
+//   LLM_IMAGE_MODEL  model for image generation and editing
+//   LLM_BASE_URL / LLM_API_KEY  where the OpenAI-compatible server is and how to authenticate
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const provider = (env.LLM_PROVIDER || "gemini").toLowerCase();
+  switch (provider) {
+    case "gemini":
+      return createGeminiProvider({
+        api_key: env.GEMINI_API_KEY || env.API_KEY || "",
+        text_model: env.LLM_TEXT_MODEL || "gemini-3-flash-preview",
+        image_model: env.LLM_IMAGE_MODEL || "gemini-2.5-flash-image",
+      });
+    case "openai":
+      if (!env.LLM_BASE_URL || !env.LLM_TEXT_MODEL) {
+        throw new LlmError("LLM_PROVIDER=openai needs LLM_BASE_URL and LLM_TEXT_MODEL", "CONFIG_ERROR");
+      }
+      return createOpenAICompatibleProvider({
+        base_url: env.LLM_BASE_URL,
+        api_key: env.LLM_API_KEY || "",
+        text_model: env.LLM_TEXT_MODEL,
+        image_model: env.LLM_IMAGE_MODEL || "",
+      });
+    case "fake":
+      return createFakeProvider();
+    default:
+      throw new LlmError(`Unknown LLM_PROVIDER "${provider}" (use gemini, openai or fake)`, "CONFIG_ERROR");
+  }
+}
+
+let current: LlmProvider | null = null;
+
+// The configured provider, built on first use so a bad config surfaces on the first model call
+export const getLlm = () => current ??= createProvider();
@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import { deflateSync } from "zlib";
+import type { AspectRatio, JsonSchema, LlmProvider } from "./provider";
+
+// Deterministic stand-in for a model: the same request always gets the same fixture copy
+// or placeholder image, without any network. For local development and automated runs.
+
+const FIXTURE_ARRAY_LENGTH = 3;
+
+const PLACEHOLDER_SIZES: Record<AspectRatio, [number, number]> = {
+  "1:1": [100, 100],
+  "2:3": [100, 150],
+  "9:16": [90, 160],
+};
+
+const digest = (...parts: (string | Buffer)[]) => {
+  const hash = createHash("sha256");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+};
+
+// Fills a schema with readable values, varied by the request's hash and each item's position
+function fixtureFor(schema: JsonSchema | undefined, seed: Buffer, key = "value", index = 0): unknown {
+  const n = seed[index % seed.length];
+  const tag = seed.toString("hex").substring(0, 6);
+  switch (schema?.type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, property]) => [name, fixtureFor(property, seed, name, index)]));
+    case "array": {
+      const length = Math.min(schema.maxItems ?? Infinity, Math.max(schema.minItems ?? 0, FIXTURE_ARRAY_LENGTH));
+      return Array.from({ length }, (_, i) => fixtureFor(schema.items, seed, key, index + i));
+    }
+    case "string":
+      if (schema.enum?.length) return schema.enum[n % schema.enum.length];
+      return `Fixture ${key.replace(/_/g, " ")} ${index + 1} (${tag})`
+        .padEnd(schema.minLength ?? 0, " Sample copy.")
+        .substring(0, schema.maxLength);
+    case "number":
+    case "integer": {
+      const min = schema.minimum ?? 0;
+      return min + n % ((schema.maximum ?? min + 255) - min + 1);
+    }
+    case "boolean":
+      return n % 2 === 0;
+    default:
+      return {};
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// A solid-colour RGB PNG; the colour comes from the seed so different prompts look different
+export function placeholderPng(seed: Buffer, aspectRatio: AspectRatio = "9:16") {
+  const [width, height] = PLACEHOLDER_SIZES[aspectRatio];
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  // Each row is a filter byte (0 = none) followed by its pixels
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) row.set([seed[0], seed[1], seed[2]], 1 + x * 3);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(Buffer.concat(Array.from({ length: height }, () => row)))),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+const pngDataUrl = (png: Buffer) => `data:image/png;base64,${png.toString("base64")}`;
+
+export function createFakeProvider(): LlmProvider {
+  return {
+    name: "fake",
+    text_model: "fake-text",
+    image_model: "fake-image",
+
+    async generateText(request) {
+      const tag = digest(request.system || "", request.prompt).toString("hex").substring(0, 6);
+      return `Fixture text (${tag}) written for a ${request.prompt.length}-character prompt${request.files?.length ? ` with ${request.files.length} file(s)` : ""}.`;
+    },
+
+    async generateJson<T>(request: { prompt: string; system?: string; schema?: JsonSchema }) {
+      return fixtureFor(request.schema, digest(request.system || "", request.prompt)) as T;
+    },
+
+    async chat(request) {
+      const tag = digest(request.system || "", ...request.history.map(turn => turn.text), request.message).toString("hex").substring(0, 6);
+      return `Fixture reply (${tag}) to: ${request.message}`;
+    },
+
+    async generateImage(request) {
+      return pngDataUrl(placeholderPng(digest(request.prompt), request.aspect_ratio));
+    },
+
+    async editImage(request) {
+      return pngDataUrl(placeholderPng(digest(request.image.data, request.prompt), request.aspect_ratio));
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { GoogleGenAI, type Part, type Schema, Type } from "@google/genai";
+import { type ImageEditRequest, type ImageRequest, type InlineFile, type JsonSchema, LlmError, type LlmProvider, type TextRequest, parseModelJson } from "./provider";
+
+export interface GeminiConfig {
+  api_key: string;
+  text_model: string;
+  image_model: string;
+}
+
+// Gemini spells schema types as upper-case enum values
+function toGeminiSchema(schema: JsonSchema): Schema {
+  return {
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    minimum: schema.minimum,
+    maximum: schema.maximum,
+    minLength: schema.minLength?.toString(),
+    maxLength: schema.maxLength?.toString(),
+    minItems: schema.minItems?.toString(),
+    maxItems: schema.maxItems?.toString(),
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties &&
+      Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  };
+}
+
+const inlinePart = (file: InlineFile): Part => ({ inlineData: { data: file.data.toString("base64"), mimeType: file.mime_type } });
+
+const contentsFor = (request: TextRequest) => request.files?.length
+  ? { parts: [...request.files.map(inlinePart), { text: request.prompt }] }
+  : request.prompt;
+
+function firstImage(parts: Part[] | undefined) {
+  const image = (parts || []).find(part => part.inlineData?.data);
+  return image ? `data:${image.inlineData!.mimeType || "image/png"};base64,${image.inlineData!.data}` : null;
+}
+
+export function createGeminiProvider(config: GeminiConfig): LlmProvider {
+  // Created on first use: the Node SDK throws on a missing key, and the server builds its provider at startup
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!config.api_key) throw new LlmError("GEMINI_API_KEY is not configured", "CONFIG_ERROR");
+    return client ??= new GoogleGenAI({ apiKey: config.api_key });
+  };
+
+  const renderImage = async (request: ImageRequest, parts: Part[]) => {
+    const response = await getClient().models.generateContent({
+      model: config.image_model,
+      contents: { parts: [...parts, ...(request.references || []).map(inlinePart), { text: request.prompt }] },
+      config: { imageConfig: { aspectRatio: request.aspect_ratio || "9:16" } },
+    });
+    return firstImage(response.candidates?.[0]?.content?.parts);
+  };
+
+  return {
+    name: "gemini",
+    text_model: config.text_model,
+    image_model: config.image_model,
+
+    async generateText(request) {
+      const response = await getClient().models.generateContent({
+        model: config.text_model,
+        contents: contentsFor(request),
+        config: request.system ? { systemInstruction: request.system } : undefined,
+      });
+      return response.text || "";
+    },
+
+    async generateJson<T>(request: TextRequest & { schema?: JsonSchema }) {
+      const response = await getClient().models.generateContent({
+        model: config.text_model,
+        contents: contentsFor(request),
+        config: {
+          systemInstruction: request.system,
+          responseMimeType: "application/json",
+          responseSchema: request.schema && toGeminiSchema(request.schema),
+        },
+      });
+      return parseModelJson<T>(response.text || "");
+    },
+
+    async chat(request) {
+      const chat = getClient().chats.create({
+        model: config.text_model,
+        config: request.system ? { systemInstruction: request.system } : undefined,
+        history: request.history.map(turn => ({ role: turn.role === "assistant" ? "model" : "user", parts: [{ text: turn.text }] })),
+      });
+      const response = await chat.sendMessage({ message: request.message });
+      return response.text || "";
+    },
+
+    generateImage: request => renderImage(request, []),
+
+    editImage: (request: ImageEditRequest) => renderImage(request, [inlinePart(request.image)]),
+  };
+}
@@ -0,0 +1,5 @@
+export type { AspectRatio, ChatTurn, InlineFile, JsonSchema, LlmProvider } from "./provider";
+export { LlmError } from "./provider";
+export { createProvider, getLlm } from "./config";
+export type { ResultOrigin, StructuredResult } from "./structured";
+export { generateStructured, validateAgainstSchema } from "./structured";
@@ -0,0 +1,111 @@
+import axios from "axios";
+import { type AspectRatio, type InlineFile, LlmError, type LlmProvider, type TextRequest, parseModelJson, toDataUrl } from "./provider";
+
+// Any server that speaks the OpenAI REST API: OpenAI itself, or a local model server
+// (Ollama, llama.cpp, vLLM, LM Studio) at something like http://127.0.0.1:11434/v1.
+
+export interface OpenAICompatibleConfig {
+  base_url: string;
+  api_key: string;
+  text_model: string;
+  // Empty when the server has no image model; image calls then fail as UNSUPPORTED
+  image_model: string;
+}
+
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+  "1:1": "1024x1024",
+  "2:3": "1024x1536",
+  "9:16": "1024x1792",
+};
+
+// Chat completions take images as data URLs; documents have no portable equivalent
+function userContent(request: TextRequest) {
+  if (!request.files?.length) return request.prompt;
+  if (request.files.some(file => !file.mime_type.startsWith("image/"))) {
+    throw new LlmError("This model server only accepts images alongside a prompt", "UNSUPPORTED");
+  }
+  return [
+    ...request.files.map(file => ({ type: "image_url", image_url: { url: toDataUrl(file) } })),
+    { type: "text", text: request.prompt },
+  ];
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  const baseUrl = config.base_url.replace(/\/$/, "");
+  const headers = config.api_key ? { 'Authorization': `Bearer ${config.api_key}` } : {};
+
+  async function post(path: string, body: unknown, timeout = 60000) {
+    try {
+      const { data } = await axios.post(`${baseUrl}${path}`, body, { headers, timeout, maxBodyLength: Infinity });
+      return data;
+    } catch (e: any) {
+      const detail = e.response?.data?.error?.message || e.response?.data?.error || e.message;
+      throw new LlmError(`Model server request to ${path} failed: ${detail}`, "API_ERROR");
+    }
+  }
+
+  async function complete(messages: unknown[], extra: object = {}) {
+    const data = await post("/chat/completions", { model: config.text_model, messages, ...extra });
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== "string") throw new LlmError("The model server returned no message", "BAD_RESPONSE");
+    return text;
+  }
+
+  const withSystem = (system: string | undefined, messages: unknown[]) =>
+    system ? [{ role: "system", content: system }, ...messages] : messages;
+
+  function requireImageModel() {
+    if (!config.image_model) throw new LlmError("No image model is configured (LLM_IMAGE_MODEL)", "UNSUPPORTED");
+  }
+
+  const imageFrom = (data: any) => {
+    const b64 = data?.data?.[0]?.b64_json;
+    return typeof b64 === "string" ? `data:image/png;base64,${b64}` : null;
+  };
+
+  return {
+    name: "openai",
+    text_model: config.text_model,
+    image_model: config.image_model,
+
+    generateText: request => complete(withSystem(request.system, [{ role: "user", content: userContent(request) }])),
+
+    async generateJson(request) {
+      const text = await complete(withSystem(request.system, [{ role: "user", content: userContent(request) }]), {
+        response_format: request.schema
+          ? { type: "json_schema", json_schema: { name: "response", schema: request.schema } }
+          : { type: "json_object" },
+      });
+      return parseModelJson(text);
+    },
+
+    chat: request => complete(withSystem(request.system, [
+      ...request.history.map(turn => ({ role: turn.role, content: turn.text })),
+      { role: "user", content: request.message },
+    ])),
+
+    async generateImage(request) {
+      requireImageModel();
+      return imageFrom(await post("/images/generations", {
+        model: config.image_model,
+        prompt: request.prompt,
+        size: IMAGE_SIZES[request.aspect_ratio || "9:16"],
+        response_format: "b64_json",
+        n: 1,
+      }, 120000));
+    },
+
+    async editImage(request) {
+      requireImageModel();
+      const form = new FormData();
+      form.append("model", config.image_model);
+      form.append("prompt", request.prompt);
+      form.append("size", IMAGE_SIZES[request.aspect_ratio || "9:16"]);
+      form.append("response_format", "b64_json");
+      form.append("image", new Blob([request.image.data], { type: request.image.mime_type }), fileName(request.image));
+      return imageFrom(await post("/images/edits", form, 120000));
+    },
+  };
+}
+
+const fileName = (file: InlineFile) => `image.${file.mime_type.split("/")[1] || "png"}`;
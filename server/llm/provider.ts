@@ -0,0 +1,96 @@
+// The one interface every model call goes through. Prompts stay with the features that
+// write them; providers only know how to send text, files and schemas to a model and
+// hand back text, parsed JSON or images.
+
+// The subset of JSON Schema every provider can express (Gemini's responseSchema is the narrowest)
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// Image or document bytes sent to the model alongside the prompt
+export interface InlineFile {
+  data: Buffer;
+  mime_type: string;
+}
+
+export interface TextRequest {
+  prompt: string;
+  system?: string;
+  files?: InlineFile[];
+}
+
+export interface JsonRequest extends TextRequest {
+  // Without a schema the model is only asked for JSON, and the shape is up to the prompt
+  schema?: JsonSchema;
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface ChatRequest {
+  system?: string;
+  history: ChatTurn[];
+  message: string;
+}
+
+export type AspectRatio = "1:1" | "2:3" | "9:16";
+
+export interface ImageRequest {
+  prompt: string;
+  aspect_ratio?: AspectRatio;
+  // Images the result should include as they are, such as a brand logo. Providers whose
+  // image API can't take extra inputs generate from the prompt alone.
+  references?: InlineFile[];
+}
+
+export interface ImageEditRequest extends ImageRequest {
+  image: InlineFile;
+}
+
+export type LlmErrorCode = "CONFIG_ERROR" | "UNSUPPORTED" | "BAD_RESPONSE" | "API_ERROR";
+
+export class LlmError extends Error {
+  // `raw` keeps the model's answer when it couldn't be parsed, so it can be sent back for repair
+  constructor(message: string, public code: LlmErrorCode, public raw: string | null = null) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+export interface LlmProvider {
+  name: string;
+  text_model: string;
+  image_model: string;
+  generateText(request: TextRequest): Promise<string>;
+  // Parsed JSON; throws BAD_RESPONSE when the model's answer isn't JSON at all
+  generateJson<T = unknown>(request: JsonRequest): Promise<T>;
+  chat(request: ChatRequest): Promise<string>;
+  // Images come back as data URLs, or null when the model answered without one
+  generateImage(request: ImageRequest): Promise<string | null>;
+  editImage(request: ImageEditRequest): Promise<string | null>;
+}
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+export function parseModelJson<T>(text: string): T {
+  const clean = text.replace(/```json/g, "").replace(/```/g, "").trim();
+  try {
+    return JSON.parse(clean || "null");
+  } catch (e) {
+    throw new LlmError("The model didn't return valid JSON", "BAD_RESPONSE", text);
+  }
+}
+
+export const toDataUrl = (file: InlineFile) => `data:${file.mime_type};base64,${file.data.toString("base64")}`;
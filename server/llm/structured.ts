@@ -0,0 +1,119 @@
+import { getLlm } from "./config";
+import { type JsonRequest, type JsonSchema, LlmError } from "./provider";
+
+// Model JSON is checked against its schema before anyone uses it. An answer that isn't
+// valid JSON, or breaks the schema (wrong type, missing field, out-of-range number,
+// over-long title), is sent back with the problems listed so the model can fix it.
+// After MAX_REPAIRS failed fixes the caller's fallback is used instead.
+
+const MAX_REPAIRS = 2;
+// How much of a rejected answer is quoted back in the repair prompt
+const MAX_QUOTED_CHARS = 4000;
+const MAX_LISTED_PROBLEMS = 10;
+
+// "model": valid on the first answer; "repaired": valid after feeding errors back;
+// "fallback": never valid, so the caller's fallback value was used
+export type ResultOrigin = "model" | "repaired" | "fallback";
+
+export interface StructuredResult<T> {
+  value: T;
+  origin: ResultOrigin;
+  // Model calls made, including repairs
+  attempts: number;
+  // Problems with each rejected answer, oldest first
+  problems: string[];
+}
+
+export interface StructuredRequest<T> extends JsonRequest {
+  schema: JsonSchema;
+  // Used, and recorded as the origin, when no answer passes validation
+  fallback: T;
+  // Semantic checks the schema can't express (e.g. "one pin per chapter"); returns problems
+  check?: (value: T) => string[];
+}
+
+const typeOf = (value: unknown) => Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+// Every way `value` breaks `schema`, as "path: problem" lines. Pure so it can run against saved answers.
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  switch (schema.type) {
+    case "object": {
+      if (typeOf(value) !== "object") return [`${path}: expected an object, got ${typeOf(value)}`];
+      const record = value as Record<string, unknown>;
+      return [
+        ...(schema.required || []).filter(key => record[key] === undefined || record[key] === null).map(key => `${path}.${key}: is required`),
+        ...Object.entries(schema.properties || {})
+          .filter(([key]) => record[key] !== undefined && record[key] !== null)
+          .flatMap(([key, property]) => validateAgainstSchema(property, record[key], `${path}.${key}`)),
+      ];
+    }
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: expected an array, got ${typeOf(value)}`];
+      const problems: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) problems.push(`${path}: has ${value.length} items, needs at least ${schema.minItems}`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) problems.push(`${path}: has ${value.length} items, allows at most ${schema.maxItems}`);
+      return schema.items ? [...problems, ...value.flatMap((item, i) => validateAgainstSchema(schema.items!, item, `${path}[${i}]`))] : problems;
+    }
+    case "string": {
+      if (typeof value !== "string") return [`${path}: expected a string, got ${typeOf(value)}`];
+      const problems: string[] = [];
+      if (schema.enum && !schema.enum.includes(value)) problems.push(`${path}: must be one of ${schema.enum.join(", ")}`);
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) problems.push(`${path}: is ${value.trim().length} characters, needs at least ${schema.minLength}`);
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) problems.push(`${path}: is ${value.length} characters, allows at most ${schema.maxLength}`);
+      return problems;
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path}: expected a number, got ${typeOf(value)}`];
+      const problems: string[] = [];
+      if (schema.type === "integer" && !Number.isInteger(value)) problems.push(`${path}: must be a whole number`);
+      if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${path}: is ${value}, must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${path}: is ${value}, must be at most ${schema.maximum}`);
+      return problems;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: expected true or false, got ${typeOf(value)}`];
+  }
+}
+
+const repairPrompt = (prompt: string, answer: string, problems: string[]) => `${prompt}
+
+Your previous answer could not be used:
+${problems.slice(0, MAX_LISTED_PROBLEMS).map(problem => `- ${problem}`).join("\n")}
+
+Previous answer:
+${answer.substring(0, MAX_QUOTED_CHARS)}
+
+Return the corrected JSON only, fixing every problem above and keeping everything else the same.`;
+
+// Provider failures (no key, network, unsupported input) are thrown, not repaired:
+// asking again wouldn't help, and callers already handle a model that is unavailable.
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const { fallback, check, ...jsonRequest } = request;
+  const problems: string[] = [];
+  let prompt = request.prompt;
+
+  for (let attempt = 1; attempt <= MAX_REPAIRS + 1; attempt++) {
+    let answer: string;
+    let found: string[];
+    try {
+      const value = await getLlm().generateJson<T>({ ...jsonRequest, prompt });
+      answer = JSON.stringify(value);
+      found = validateAgainstSchema(request.schema, value);
+      if (found.length === 0 && check) found = check(value);
+      if (found.length === 0) {
+        if (attempt > 1) console.warn(`Model JSON repaired after ${attempt - 1} ${attempt === 2 ? "retry" : "retries"}:`, problems);
+        return { value, origin: attempt === 1 ? "model" : "repaired", attempts: attempt, problems };
+      }
+    } catch (e) {
+      if (!(e instanceof LlmError && e.code === "BAD_RESPONSE")) throw e;
+      answer = e.raw || "";
+      found = ["$: the answer was not valid JSON"];
+    }
+    problems.push(...found.map(problem => `attempt ${attempt}: ${problem}`));
+    prompt = repairPrompt(request.prompt, answer, found);
+  }
+
+  console.warn(`Model JSON still invalid after ${MAX_REPAIRS} repairs; using the fallback:`, problems);
+  return { value: fallback, origin: "fallback", attempts: MAX_REPAIRS + 1, problems };
+}
@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { Database } from "better-sqlite3";
+
+// How long a user has to finish the Pinterest consent screen.
+const STATE_TTL_SECONDS = 10 * 60;
+
+// Binds a state to the exact session that started the flow, not just the user id.
+const hashSession = (sessionToken: string) => crypto.createHash("sha256").update(sessionToken).digest("base64url");
+
+export interface OAuthStart {
+  state: string;
+  codeChallenge: string;
+}
+
+export function createOAuthState(db: Database, secret: string, userId: number, sessionToken: string): OAuthStart {
+  const nonce = crypto.randomBytes(16).toString("base64url");
+  const codeVerifier = crypto.randomBytes(32).toString("base64url");
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  db.prepare("DELETE FROM oauth_states WHERE created_at < datetime('now', ?)").run(`-${STATE_TTL_SECONDS} seconds`);
+  db.prepare("INSERT INTO oauth_states (nonce, user_id, code_verifier) VALUES (?, ?, ?)").run(nonce, userId, codeVerifier);
+
+  const state = jwt.sign({ nonce, sid: hashSession(sessionToken) }, secret, { expiresIn: STATE_TTL_SECONDS });
+  return { state, codeChallenge };
+}
+
+// Returns the PKCE verifier for a valid state and deletes it, so a replayed state finds nothing.
+export function consumeOAuthState(db: Database, secret: string, state: string, userId: number, sessionToken: string): string | null {
+  let payload: any;
+  try {
+    payload = jwt.verify(state, secret);
+  } catch (e) {
+    return null;
+  }
+  if (!payload?.nonce || payload.sid !== hashSession(sessionToken)) return null;
+
+  const row = db.prepare("DELETE FROM oauth_states WHERE nonce = ? AND user_id = ? RETURNING code_verifier").get(payload.nonce, userId) as any;
+  return row?.code_verifier || null;
+}
@@ -0,0 +1,186 @@
+import { type BrandKit, brandCopyGuidance, brandImageGuidance } from "./brandKits";
+import { CTA_STYLES, DEFAULT_GENERATION_OPTIONS, type GenerationOptions, TONE_PRESETS, findAvoidedWords, hasEmoji } from "./generationOptions";
+import { type InlineFile, type JsonSchema, type StructuredResult, generateStructured, getLlm } from "./llm";
+
+export interface PinContent {
+  title: string;
+  description: string;
+}
+
+// Maximum lengths are hard limits. Models count characters loosely, so a description only
+// goes back for repair when it is under half the requested minimum.
+const pinsSchema = (count: number, options: GenerationOptions): JsonSchema => ({
+  type: "array",
+  minItems: count,
+  maxItems: count,
+  items: {
+    type: "object",
+    properties: {
+      title: { type: "string", minLength: 1, maxLength: options.title_max_chars },
+      description: { type: "string", minLength: Math.max(1, Math.floor(options.description_min_chars / 2)), maxLength: options.description_max_chars },
+    },
+    required: ["title", "description"],
+  },
+});
+
+// What the schema can't check: banned words and emoji
+const copyProblems = (options: GenerationOptions) => (pins: PinContent[]) => pins.flatMap((pin, i) => {
+  const text = `${pin.title}\n${pin.description}`;
+  const avoided = findAvoidedWords(text, options.avoid_words);
+  return [
+    ...(avoided.length > 0 ? [`$[${i}]: uses words that must be avoided: ${avoided.join(", ")}`] : []),
+    ...(!options.emoji && hasEmoji(text) ? [`$[${i}]: contains emoji, which are not allowed`] : []),
+  ];
+});
+
+// A brand's banned phrases join the words to avoid, so the repair loop enforces them too
+const withBrand = (options: GenerationOptions, brand: BrandKit | null): GenerationOptions => brand
+  ? { ...options, avoid_words: [...new Set([...options.avoid_words, ...brand.banned_phrases])] }
+  : options;
+
+// The voice, audience, language, length and CTA rules shared by every copy prompt
+function copyGuidelines(options: GenerationOptions, focus: string, brand: BrandKit | null) {
+  const rules = [
+    `**Titles**: Punchy and keyword-rich, at most ${options.title_max_chars} characters. ${focus}`,
+    `**Descriptions**: ${options.description_min_chars}-${options.description_max_chars} characters. Hook the reader first, then explain the value clearly in natural language. ${CTA_STYLES[options.cta_style].guidance}`,
+    "**Keywords**: Weave in the trending keywords naturally where they fit; never stuff them.",
+    `**Tone**: ${TONE_PRESETS[options.tone].guidance}`,
+    brand && brandCopyGuidance(brand),
+    options.audience && `**Audience**: Write for ${options.audience}.`,
+    `**Language**: Write the titles and descriptions in ${options.language}.`,
+    `**Formatting**: Sentence case for descriptions. Title case for titles. ${options.emoji ? "A few fitting emoji are welcome." : "No emoji."}`,
+    options.avoid_words.length > 0 && `**Never use** these words or phrases: ${options.avoid_words.join(", ")}.`,
+  ].filter(Boolean);
+  return `Guidelines:\n${rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n")}`;
+}
+
+// The source's own summary line, without the "SUMMARY:" label or the key points under it
+const plainDescription = (description: string) =>
+  description.replace(/^SUMMARY:\s*/, "").split(/\n\s*\n|\nKey points:/)[0].trim();
+
+const DETAIL_SKIP = new Set(["name", "description", "images", "published_at"]);
+
+// One "Label: value" line per populated field; long lists are trimmed to keep the prompt focused
+function formatSourceDetails(details: object) {
+  return Object.entries(details)
+    .filter(([key, value]) => !DETAIL_SKIP.has(key) && value != null && value !== "" && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => {
+      const label = key.replace(/_/g, " ").replace(/^\w/, c => c.toUpperCase());
+      return `${label}: ${Array.isArray(value) ? value.slice(0, 12).join("; ") : String(value)}`;
+    })
+    .join("\n");
+}
+
+export async function generatePinContent(
+  sourceTitle: string,
+  sourceDescription: string,
+  trends: string[],
+  // Structured facts about the source (schema.org recipe times, product price, steps...), keyed by field name
+  details?: object | null,
+  requested: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  brand: BrandKit | null = null
+): Promise<StructuredResult<PinContent[]>> {
+  const options = withBrand(requested, brand);
+  const detailLines = details ? formatSourceDetails(details) : "";
+  
+  const prompt = `Act as a world-class Pinterest Algorithm Expert and Master Copywriter. Your goal is to create ${options.variations} distinct, click-worthy Pin ${options.variations === 1 ? "title and description" : "titles and descriptions"} based on the source content below.
+
+Source Title: ${sourceTitle}
+Source Description: ${sourceDescription}
+Trending Keywords to Integrate: ${trends.join(", ")}
+${detailLines ? `
+Structured Details (from the page's own data; use concrete facts like times, prices and step counts, e.g. "20-Minute" or "Under $25"):
+${detailLines}
+` : ""}
+${copyGuidelines(options, "Each variation should take a different angle on the source.", brand)}
+
+Return the result as a JSON array of ${options.variations} objects with 'title' and 'description' fields.`;
+
+  return generateStructured({
+    prompt,
+    schema: pinsSchema(options.variations, options),
+    check: copyProblems(options),
+    // A single draft straight from the source, for the user to edit
+    fallback: [{
+      title: sourceTitle.substring(0, options.title_max_chars),
+      description: (plainDescription(sourceDescription) || sourceTitle).substring(0, options.description_max_chars),
+    }],
+  });
+}
+
+export interface ChapterSource {
+  title: string;
+  // What is said during the chapter
+  excerpt: string;
+}
+
+// One pin per video chapter, in the same order, so a long tutorial becomes a series of pins.
+// The variation count doesn't apply; every other option does.
+export async function generateChapterPins(
+  videoTitle: string,
+  chapters: ChapterSource[],
+  trends: string[],
+  requested: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  brand: BrandKit | null = null
+): Promise<StructuredResult<PinContent[]>> {
+  const options = withBrand(requested, brand);
+  const chapterLines = chapters
+    .map((chapter, i) => `${i + 1}. ${chapter.title}${chapter.excerpt ? `\n   Transcript: ${chapter.excerpt.substring(0, 800)}` : ""}`)
+    .join("\n");
+
+  const prompt = `Act as a world-class Pinterest Algorithm Expert and Master Copywriter. The video below is being turned into a series of Pins, one per chapter. Write exactly one Pin title and description for each chapter, in the same order.
+
+Video Title: ${videoTitle}
+Trending Keywords to Integrate: ${trends.join(", ")}
+
+Chapters:
+${chapterLines}
+
+${copyGuidelines(options, "Each title must be about its own chapter's specific tip or step, not the whole video. Ground each description in what that chapter's transcript actually says.", brand)}
+
+Return the result as a JSON array with one object per chapter, each with 'title' and 'description' fields.`;
+
+  return generateStructured({
+    prompt,
+    schema: pinsSchema(chapters.length, options),
+    check: copyProblems(options),
+    // Still one pin per chapter, using the chapter title and what is said in it
+    fallback: chapters.map(chapter => ({
+      title: `${chapter.title} | ${videoTitle}`.substring(0, options.title_max_chars),
+      description: (chapter.excerpt || chapter.title).substring(0, options.description_max_chars),
+    })),
+  });
+}
+
+// With a brand kit the image follows its palette and fonts, and its logo goes in as a reference
+export async function generatePinImage(prompt: string, brand: BrandKit | null = null, logo: InlineFile | null = null): Promise<string | null> {
+  try {
+    return await getLlm().generateImage({
+      prompt: `Create a stunning, high-converting Pinterest pin image for: ${prompt}. 
+        Style: Professional, aesthetic, high-resolution photography or premium graphic design.
+        Composition: Vertical (9:16), clean layout, eye-catching focal point.
+        Vibe: Inspiring, aspirational, and 'save-worthy'.
+        ${brand?.palette.length ? "" : "Colors: Vibrant but harmonious, on-trend palettes."}
+        ${brand ? brandImageGuidance(brand) : ""}`.trim(),
+      aspect_ratio: "9:16",
+      references: brand && logo ? [logo] : undefined,
+    });
+  } catch (error) {
+    console.error("Image generation failed", error);
+    return null;
+  }
+}
+
+export async function editPinImage(image: InlineFile, prompt: string, brand: BrandKit | null = null, logo: InlineFile | null = null): Promise<string | null> {
+  try {
+    return await getLlm().editImage({
+      image,
+      prompt: `Edit this image to make it more viral on Pinterest. ${prompt}. Maintain high quality and vertical aspect ratio.${brand ? `\n${brandImageGuidance(brand)}` : ""}`,
+      aspect_ratio: "9:16",
+      references: brand && logo ? [logo] : undefined,
+    });
+  } catch (error) {
+    console.error("Image editing failed", error);
+    return null;
+  }
+}
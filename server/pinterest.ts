@@ -0,0 +1,248 @@
+import axios from "axios";
+import type { Database } from "better-sqlite3";
+
+// Base URL of the Pinterest v5 API. Point PINTEREST_API_URL at a local stand-in
+// to exercise the OAuth and publish flows without talking to Pinterest.
+export const PINTEREST_API_URL = (process.env.PINTEREST_API_URL || "https://api.pinterest.com/v5").replace(/\/$/, "");
+
+// The OAuth token endpoint can be pointed elsewhere on its own (PINTEREST_TOKEN_URL), so token
+// exchange and refresh can be checked against a stand-in while everything else stays real.
+// Read on every request so a check script can set it after import.
+const tokenUrl = () => process.env.PINTEREST_TOKEN_URL || `${PINTEREST_API_URL}/oauth/token`;
+
+// Refresh a little before the token actually expires so a publish never races the expiry.
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Board sections are one request per board; this many run at once
+const SECTION_FETCH_CONCURRENCY = 3;
+
+export type PinterestErrorCode = "AUTH_REQUIRED" | "AUTH_EXPIRED" | "RATE_LIMIT" | "CONFIG_ERROR" | "INVALID_LINK" | "API_ERROR";
+
+export class PinterestError extends Error {
+  constructor(message: string, public code: PinterestErrorCode, public status = 502) {
+    super(message);
+    this.name = "PinterestError";
+  }
+}
+
+export interface PinterestTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+export interface PinterestBoard {
+  id: string;
+  name: string;
+  privacy?: string;
+  sections: { id: string; name: string }[];
+}
+
+export interface CreatePinInput {
+  board_id: string;
+  board_section_id?: string | null;
+  title?: string;
+  description?: string;
+  link?: string;
+  // Either stored image bytes or a publicly reachable image URL
+  image_data?: { content_type: string; data: Buffer };
+  image_url?: string;
+}
+
+function getClientCredentials() {
+  const clientId = process.env.PINTEREST_CLIENT_ID;
+  const clientSecret = process.env.PINTEREST_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new PinterestError("Pinterest OAuth is not configured on the server", "CONFIG_ERROR", 500);
+  }
+  return { clientId, clientSecret };
+}
+
+async function requestToken(params: Record<string, string>): Promise<PinterestTokens> {
+  const { clientId, clientSecret } = getClientCredentials();
+  try {
+    const { data } = await axios.post(tokenUrl(), new URLSearchParams(params).toString(), {
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      timeout: 10000
+    });
+    if (!data?.access_token) {
+      throw new PinterestError("Pinterest did not return an access token", "API_ERROR");
+    }
+    return data;
+  } catch (e: any) {
+    if (e instanceof PinterestError) throw e;
+    const status = e.response?.status;
+    if (status === 400 || status === 401) {
+      throw new PinterestError("Pinterest rejected the authorization – please reconnect your Pinterest account", "AUTH_EXPIRED", 401);
+    }
+    throw new PinterestError(`Pinterest token request failed: ${e.message}`, "API_ERROR");
+  }
+}
+
+export function exchangeCodeForTokens(code: string, redirectUri: string, codeVerifier: string) {
+  return requestToken({ grant_type: "authorization_code", code, redirect_uri: redirectUri, code_verifier: codeVerifier });
+}
+
+export function refreshAccessToken(refreshToken: string) {
+  return requestToken({ grant_type: "refresh_token", refresh_token: refreshToken });
+}
+
+export function saveTokens(db: Database, userId: number, tokens: PinterestTokens) {
+  const expiresAt = tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000).toISOString() : null;
+  // Pinterest does not always rotate the refresh token, so keep the stored one when none comes back.
+  db.prepare(`
+    UPDATE users
+    SET pinterest_token = ?, pinterest_refresh_token = COALESCE(?, pinterest_refresh_token), pinterest_token_expires_at = ?
+    WHERE id = ?
+  `).run(tokens.access_token, tokens.refresh_token || null, expiresAt, userId);
+}
+
+export function clearTokens(db: Database, userId: number) {
+  db.prepare("UPDATE users SET pinterest_token = NULL, pinterest_refresh_token = NULL, pinterest_token_expires_at = NULL WHERE id = ?").run(userId);
+}
+
+// Concurrent publishes for the same user share one refresh request.
+const pendingRefreshes = new Map<number, Promise<string>>();
+
+export async function getValidAccessToken(db: Database, userId: number): Promise<string> {
+  const user = db.prepare("SELECT pinterest_token, pinterest_refresh_token, pinterest_token_expires_at FROM users WHERE id = ?").get(userId) as any;
+  if (!user || !user.pinterest_token) {
+    throw new PinterestError("Pinterest account not connected", "AUTH_REQUIRED", 401);
+  }
+
+  const expiresAt = user.pinterest_token_expires_at ? new Date(user.pinterest_token_expires_at).getTime() : null;
+  if (!expiresAt || expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return user.pinterest_token;
+  }
+
+  if (!user.pinterest_refresh_token) {
+    clearTokens(db, userId);
+    throw new PinterestError("Authentication expired – please reconnect your Pinterest account", "AUTH_EXPIRED", 401);
+  }
+
+  let pending = pendingRefreshes.get(userId);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const tokens = await refreshAccessToken(user.pinterest_refresh_token);
+        saveTokens(db, userId, tokens);
+        return tokens.access_token;
+      } catch (e) {
+        if (e instanceof PinterestError && e.code === "AUTH_EXPIRED") {
+          clearTokens(db, userId);
+        }
+        throw e;
+      } finally {
+        pendingRefreshes.delete(userId);
+      }
+    })();
+    pendingRefreshes.set(userId, pending);
+  }
+  return pending;
+}
+
+function toMediaSource(input: CreatePinInput) {
+  if (input.image_data) {
+    return { source_type: "image_base64", content_type: input.image_data.content_type, data: input.image_data.data.toString("base64") };
+  }
+  if (!input.image_url) {
+    throw new PinterestError("Pin has no image", "API_ERROR", 400);
+  }
+  return { source_type: "image_url", url: input.image_url };
+}
+
+function toPinterestError(e: any, fallback: string): PinterestError {
+  const status = e.response?.status;
+  if (status === 401) {
+    return new PinterestError("Authentication expired – please reconnect your Pinterest account", "AUTH_EXPIRED", 401);
+  }
+  if (status === 429) {
+    return new PinterestError("Rate limit exceeded – try again later", "RATE_LIMIT", 429);
+  }
+  return new PinterestError(e.response?.data?.message || fallback, "API_ERROR", 502);
+}
+
+export async function createPin(accessToken: string, input: CreatePinInput): Promise<{ id: string }> {
+  const mediaSource = toMediaSource(input);
+  try {
+    const { data } = await axios.post(`${PINTEREST_API_URL}/pins`, {
+      board_id: input.board_id,
+      board_section_id: input.board_section_id || undefined,
+      title: input.title?.substring(0, 100),
+      description: input.description?.substring(0, 500),
+      link: input.link || undefined,
+      media_source: mediaSource,
+    }, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      timeout: 30000,
+      maxBodyLength: Infinity
+    });
+    return { id: String(data.id) };
+  } catch (e: any) {
+    throw toPinterestError(e, "Pinterest rejected the pin");
+  }
+}
+
+// Follows Pinterest's bookmark pagination until every page has been read.
+async function listAll(accessToken: string, path: string): Promise<any[]> {
+  const items: any[] = [];
+  let bookmark: string | undefined;
+  do {
+    const { data } = await axios.get(`${PINTEREST_API_URL}${path}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      params: { page_size: 100, bookmark },
+      timeout: 10000
+    });
+    items.push(...(data.items || []));
+    bookmark = data.bookmark || undefined;
+  } while (bookmark);
+  return items;
+}
+
+export async function listBoards(accessToken: string): Promise<PinterestBoard[]> {
+  let boards: any[];
+  try {
+    boards = await listAll(accessToken, "/boards");
+  } catch (e: any) {
+    throw toPinterestError(e, "Failed to load Pinterest boards");
+  }
+
+  // A few boards' sections at a time to stay clear of the rate limit; a board whose sections
+  // can't be loaded is still listed, just without them
+  const result: PinterestBoard[] = boards.map(board => ({
+    id: String(board.id),
+    name: board.name,
+    privacy: board.privacy,
+    sections: [],
+  }));
+  let next = 0;
+  const loadSections = async () => {
+    while (next < boards.length) {
+      const index = next++;
+      try {
+        const sections = await listAll(accessToken, `/boards/${encodeURIComponent(boards[index].id)}/sections`);
+        result[index].sections = sections.map(section => ({ id: String(section.id), name: section.name }));
+      } catch (e: any) {
+        console.error(`Failed to load sections for board ${boards[index].id}:`, e.message);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SECTION_FETCH_CONCURRENCY, boards.length) }, loadSections));
+  return result;
+}
+
+// The one publish path shared by the publish route and the scheduled publish worker.
+export async function publishPin(db: Database, userId: number, input: CreatePinInput): Promise<{ id: string; url: string }> {
+  try {
+    // Refreshes the stored token first if it is about to expire
+    const accessToken = await getValidAccessToken(db, userId);
+    const pin = await createPin(accessToken, input);
+    return { id: pin.id, url: `https://www.pinterest.com/pin/${pin.id}/` };
+  } catch (e) {
+    if (e instanceof PinterestError && e.code === "AUTH_EXPIRED") clearTokens(db, userId);
+    throw e;
+  }
+}
@@ -0,0 +1,40 @@
+// Column layout of Pinterest's bulk-create CSV template
+const BULK_CSV_COLUMNS = ["Title", "Media URL", "Pinterest board", "Thumbnail", "Description", "Link", "Publish date", "Keywords"];
+
+export interface BulkPinRow {
+  title: string;
+  media_url: string;
+  board: string;
+  description: string;
+  link: string;
+  // ISO timestamp; empty publishes as soon as Pinterest processes the upload
+  publish_date?: string | null;
+  keywords?: string[];
+}
+
+// Cells a spreadsheet would run as a formula (=, +, -, @, tab or carriage return first) get a leading '
+const escapeCsv = (raw: string) => {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Pinterest expects UTC without milliseconds or a zone suffix
+const formatPublishDate = (value?: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 19);
+};
+
+export function toBulkCsv(rows: BulkPinRow[]): string {
+  const lines = rows.map(row => [
+    row.title.substring(0, 100),
+    row.media_url,
+    row.board,
+    "",
+    row.description.substring(0, 500),
+    row.link,
+    formatPublishDate(row.publish_date),
+    (row.keywords || []).join(", "),
+  ].map(escapeCsv).join(","));
+  return [BULK_CSV_COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,151 @@
+import { ALLOW_ALL, DISALLOW_ALL, type RobotsPolicy, parseRobots } from "./robots";
+import { type FetchedResponse, FetchError, type SafeFetchOptions, USER_AGENT_TOKEN, safeFetch } from "./safeFetch";
+
+// Page fetches on behalf of users: robots.txt is honoured, each host gets a small number
+// of concurrent requests spaced out over time, and a 429/503 pauses that host for as
+// long as it asks. Everything here is in-memory; a restart simply starts fresh.
+
+const MAX_PER_HOST = Number(process.env.CRAWLER_MAX_PER_HOST) || 2;
+const MIN_INTERVAL_MS = Number(process.env.CRAWLER_MIN_INTERVAL_MS) || 1000;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// An unreachable robots.txt fails requests to the host with ROBOTS_UNAVAILABLE, but only briefly
+const ROBOTS_ERROR_TTL_MS = 60 * 1000;
+const MAX_CRAWL_DELAY_MS = 30 * 1000;
+const DEFAULT_BACKOFF_SECONDS = 60;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+// Longer pauses fail fast with RATE_LIMITED instead of holding the request open
+const MAX_WAIT_MS = 10 * 1000;
+
+interface HostState {
+  active: number;
+  nextAt: number;
+  blockedUntil: number;
+}
+
+const hosts = new Map<string, HostState>();
+// Either the parsed policy or the ROBOTS_UNAVAILABLE error to repeat until it expires
+const robotsCache = new Map<string, { policy: RobotsPolicy; error?: undefined; expiresAt: number } | { policy?: undefined; error: FetchError; expiresAt: number }>();
+const pendingRobots = new Map<string, Promise<RobotsPolicy>>();
+
+const hostState = (host: string) => {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, nextAt: 0, blockedUntil: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new FetchError("The request timed out", "TIMEOUT"));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new FetchError("The request timed out", "TIMEOUT"));
+  }, { once: true });
+});
+
+const rateLimited = (host: string, waitMs: number) => {
+  const error = new FetchError(`${host} asked us to slow down; try again in ${Math.ceil(waitMs / 1000)}s`, "RATE_LIMITED", 429);
+  error.retryAfter = Math.ceil(waitMs / 1000);
+  return error;
+};
+
+async function acquireSlot(host: string, intervalMs: number, signal?: AbortSignal) {
+  const state = hostState(host);
+  for (;;) {
+    const now = Date.now();
+    if (state.blockedUntil > now) {
+      const wait = state.blockedUntil - now;
+      if (wait > MAX_WAIT_MS) throw rateLimited(host, wait);
+      await sleep(wait, signal);
+      continue;
+    }
+    if (state.active < MAX_PER_HOST && state.nextAt <= now) {
+      state.active++;
+      state.nextAt = now + intervalMs;
+      return () => { state.active--; };
+    }
+    await sleep(Math.max(state.nextAt - now, 100), signal);
+  }
+}
+
+// Waits for a shared promise, but gives up when this caller's own request is aborted
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal) => !signal ? promise : new Promise<T>((resolve, reject) => {
+  if (signal.aborted) return reject(new FetchError("The request timed out", "TIMEOUT"));
+  signal.addEventListener("abort", () => reject(new FetchError("The request timed out", "TIMEOUT")), { once: true });
+  promise.then(resolve, reject);
+});
+
+async function loadRobots(origin: string): Promise<RobotsPolicy> {
+  try {
+    const response = await safeFetch(`${origin}/robots.txt`, { timeoutMs: 5000, maxBytes: 500 * 1024 });
+    return parseRobots(response.body.toString("utf8"), USER_AGENT_TOKEN);
+  } catch (e: any) {
+    if (!(e instanceof FetchError)) throw e;
+    // A robots.txt behind authentication means the site keeps bots out; any other
+    // missing file (4xx) allows everything
+    if (e.code === "HTTP_ERROR" && (e.status === 401 || e.status === 403)) return DISALLOW_ALL;
+    if (e.code === "HTTP_ERROR" && e.status! < 500) return ALLOW_ALL;
+    if (e.code === "UNSUPPORTED_CONTENT") return ALLOW_ALL;
+    // Server errors, timeouts and network failures say nothing about the site's wishes
+    if (e.code === "HTTP_ERROR" || e.code === "TIMEOUT" || e.code === "NETWORK_ERROR") {
+      throw new FetchError(`${new URL(origin).hostname}'s robots.txt couldn't be read right now; try again shortly`, "ROBOTS_UNAVAILABLE", e.status);
+    }
+    // BLOCKED_HOST, BAD_PROTOCOL and the like keep their own code
+    throw e;
+  }
+}
+
+// robots.txt is fetched once per origin for all waiting callers, without any caller's
+// signal, so one caller giving up doesn't decide the result for the others
+async function robotsFor(origin: string, signal?: AbortSignal) {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    if (cached.error) throw cached.error;
+    return cached.policy;
+  }
+
+  let pending = pendingRobots.get(origin);
+  if (!pending) {
+    pending = loadRobots(origin)
+      .then(policy => {
+        robotsCache.set(origin, { policy, expiresAt: Date.now() + ROBOTS_TTL_MS });
+        return policy;
+      }, (e) => {
+        if (e instanceof FetchError && e.code === "ROBOTS_UNAVAILABLE") {
+          console.warn(`robots.txt unavailable for ${origin}:`, e.message);
+          robotsCache.set(origin, { error: e, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS });
+        }
+        throw e;
+      })
+      .finally(() => pendingRobots.delete(origin));
+    pendingRobots.set(origin, pending);
+  }
+  return untilAborted(pending, signal);
+}
+
+export async function politeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<FetchedResponse> {
+  const url = new URL(rawUrl);
+  const robots = await robotsFor(url.origin, options.signal);
+  if (!robots.isAllowed(url.pathname + url.search)) {
+    throw new FetchError(`${url.hostname} doesn't allow automated access to this page (robots.txt)`, "ROBOTS_DISALLOWED");
+  }
+
+  const interval = Math.max(MIN_INTERVAL_MS, Math.min((robots.crawlDelay || 0) * 1000, MAX_CRAWL_DELAY_MS));
+  // Retry once when the pause the site asks for is short enough to wait out
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireSlot(url.host, interval, options.signal);
+    try {
+      return await safeFetch(rawUrl, options);
+    } catch (e: any) {
+      if (!(e instanceof FetchError) || (e.status !== 429 && e.status !== 503)) throw e;
+      const backoff = Math.min(e.retryAfter ?? DEFAULT_BACKOFF_SECONDS, MAX_BACKOFF_SECONDS) * 1000;
+      const state = hostState(url.host);
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + backoff);
+      if (attempt > 0 || backoff > MAX_WAIT_MS) throw rateLimited(url.hostname, backoff);
+    } finally {
+      release();
+    }
+  }
+}
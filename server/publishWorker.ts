@@ -0,0 +1,81 @@
+import type { Database } from "better-sqlite3";
+import { type AssetStorage, loadAsset } from "./assets";
+import { isValidLink } from "./linkRules";
+import { PinterestError, publishPin } from "./pinterest";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 10;
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MINUTES = 15;
+
+// Rate limits and Pinterest hiccups are worth retrying; a revoked or missing connection is not.
+const RETRYABLE_CODES = new Set(["RATE_LIMIT", "API_ERROR"]);
+
+async function publishScheduledPin(db: Database, assets: AssetStorage, pin: any) {
+  // Claim the pin so an overlapping tick can't publish it twice
+  const claimed = db.prepare("UPDATE generated_pins SET status = 'publishing' WHERE id = ? AND status = 'scheduled'").run(pin.id);
+  if (claimed.changes === 0) return;
+
+  try {
+    const image = pin.asset_id ? await loadAsset(db, assets, pin.asset_id) : null;
+    if (pin.asset_id && !image) {
+      throw new PinterestError("Pin image is missing from the asset store", "API_ERROR", 404);
+    }
+    if (pin.link && !isValidLink(pin.link)) {
+      throw new PinterestError("Destination link is not a valid http(s) URL", "INVALID_LINK", 400);
+    }
+    const result = await publishPin(db, pin.user_id, {
+      board_id: pin.board_id,
+      board_section_id: pin.board_section_id,
+      title: pin.title,
+      description: pin.description,
+      link: pin.link || undefined,
+      image_data: image || undefined,
+      image_url: pin.image_url,
+    });
+    db.prepare("INSERT INTO publish_attempts (pin_id, success, pinterest_pin_id) VALUES (?, 1, ?)").run(pin.id, result.id);
+    db.prepare("UPDATE generated_pins SET status = 'published', pinterest_pin_id = ? WHERE id = ?").run(result.id, pin.id);
+    console.log(`Published scheduled pin ${pin.id} as ${result.id}`);
+  } catch (e: any) {
+    const code = e instanceof PinterestError ? e.code : "API_ERROR";
+    console.error(`Scheduled publish failed for pin ${pin.id}:`, e.message);
+    db.prepare("INSERT INTO publish_attempts (pin_id, success, error, error_code) VALUES (?, 0, ?, ?)").run(pin.id, e.message, code);
+
+    const retries = (pin.retry_count || 0) + 1;
+    if (RETRYABLE_CODES.has(code) && retries < MAX_RETRIES) {
+      db.prepare("UPDATE generated_pins SET status = 'scheduled', retry_count = ?, scheduled_at = datetime('now', ?) WHERE id = ?")
+        .run(retries, `+${RETRY_DELAY_MINUTES * retries} minutes`, pin.id);
+    } else {
+      db.prepare("UPDATE generated_pins SET status = 'failed', retry_count = ? WHERE id = ?").run(retries, pin.id);
+    }
+  }
+}
+
+export function startPublishWorker(db: Database, assets: AssetStorage) {
+  // A pin left mid-publish by a crash or restart goes back into the queue
+  db.prepare("UPDATE generated_pins SET status = 'scheduled' WHERE status = 'publishing'").run();
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = db.prepare(`
+        SELECT * FROM generated_pins
+        WHERE status = 'scheduled' AND scheduled_at <= datetime('now')
+        ORDER BY scheduled_at LIMIT ?
+      `).all(BATCH_SIZE);
+      for (const pin of due) {
+        await publishScheduledPin(db, assets, pin);
+      }
+    } catch (e) {
+      console.error("Publish worker tick failed:", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
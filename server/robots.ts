@@ -0,0 +1,83 @@
+// robots.txt parsing per RFC 9309: the group naming our product token wins over "*",
+// the longest matching rule decides, and Allow beats Disallow on a tie.
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export interface RobotsPolicy {
+  isAllowed(pathAndQuery: string): boolean;
+  // Seconds between requests the site asks for, if any
+  crawlDelay: number | null;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true, crawlDelay: null };
+export const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false, crawlDelay: null };
+
+// "*" matches any run of characters and a trailing "$" anchors the end
+const toRegex = (pattern: string) => {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+};
+
+export function parseRobots(body: string, productToken: string): RobotsPolicy {
+  const token = productToken.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value, regex: toRegex(value) });
+    } else if (field === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const ours = groups.filter(group => group.agents.some(agent => agent !== "*" && token.startsWith(agent)));
+  const matching = ours.length > 0 ? ours : groups.filter(group => group.agents.includes("*"));
+  if (matching.length === 0) return ALLOW_ALL;
+
+  const rules = matching.flatMap(group => group.rules);
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null);
+
+  return {
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+    isAllowed(pathAndQuery: string) {
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(pathAndQuery)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
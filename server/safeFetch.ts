@@ -0,0 +1,248 @@
+import axios from "axios";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+// Every fetch of a user-supplied URL goes through here. Targets are resolved and checked
+// against private, loopback and link-local ranges on every redirect hop, and again when
+// the socket connects, so a DNS answer that changes between check and connect is caught too.
+
+export type FetchErrorCode =
+  | "BAD_PROTOCOL"
+  | "BLOCKED_HOST"
+  | "TOO_MANY_REDIRECTS"
+  | "TOO_LARGE"
+  | "UNSUPPORTED_CONTENT"
+  | "HTTP_ERROR"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "ROBOTS_DISALLOWED"
+  | "ROBOTS_UNAVAILABLE"
+  | "RATE_LIMITED";
+
+export class FetchError extends Error {
+  // Seconds the server asked us to wait (Retry-After on 429/503)
+  public retryAfter?: number;
+
+  constructor(message: string, public code: FetchErrorCode, public status?: number) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+// We identify ourselves honestly; sites can allow or block this token in robots.txt
+export const USER_AGENT = process.env.CRAWLER_USER_AGENT || `PinViralBot/1.0${process.env.APP_URL ? ` (+${process.env.APP_URL})` : ""}`;
+export const USER_AGENT_TOKEN = USER_AGENT.split("/")[0];
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(header?: string | null) {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export type ExpectedContent = "html" | "json" | "image" | "xml" | "any";
+
+export interface SafeFetchOptions {
+  expect?: ExpectedContent;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+}
+
+export interface FetchedResponse {
+  // Final URL after redirects; resolve relative links against this, not the requested URL
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  content_type: string;
+  body: Buffer;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+const CONTENT_TYPES: Record<Exclude<ExpectedContent, "any">, RegExp> = {
+  html: /^(text\/html|application\/xhtml\+xml)$/,
+  json: /^(application\/json|application\/[\w.+-]+\+json|text\/javascript)$/,
+  image: /^image\//,
+  xml: /^(application\/(rss\+|atom\+)?xml|text\/xml)$/,
+};
+
+// Local development can opt out to fetch from a blog running on localhost
+const allowPrivate = () => process.env.FETCH_ALLOW_PRIVATE === "true";
+
+const blockList = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  blockList.addSubnet(address, prefix, "ipv4");
+}
+// 64:ff9b:1::/48 is local-use NAT64, where the IPv4 address can sit anywhere, so it's blocked outright
+for (const [address, prefix] of [["::", 128], ["::1", 128], ["64:ff9b:1::", 48], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  blockList.addSubnet(address, prefix, "ipv6");
+}
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a dotted IPv4 tail converted
+function ipv6Groups(address: string) {
+  let text = address.split("%")[0];
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split(".").map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) => part ? part.split(":").map(group => parseInt(group, 16)) : [];
+  const front = parse(head);
+  const back = parse(tail);
+  return tail === undefined ? front : [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+const ipv4From = (high: number, low: number) => `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+
+// The IPv4 address carried by IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96),
+// NAT64 (64:ff9b::/96) and 6to4 (2002::/16) addresses, which reach that IPv4 host
+function embeddedIpv4(address: string) {
+  const groups = ipv6Groups(address);
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return ipv4From(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return ipv4From(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) return ipv4From(groups[1], groups[2]);
+  return null;
+}
+
+export function isBlockedAddress(address: string) {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  if (family === 4) return blockList.check(address, "ipv4");
+  const ipv4 = embeddedIpv4(address);
+  if (ipv4 && isBlockedAddress(ipv4)) return true;
+  return blockList.check(address, "ipv6");
+}
+
+async function assertPublicHost(hostname: string) {
+  if (allowPrivate()) return;
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true }).catch(() => {
+        throw new FetchError(`Couldn't resolve ${host}`, "NETWORK_ERROR");
+      })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new FetchError("That address points to a private or local network", "BLOCKED_HOST");
+  }
+}
+
+// Re-checks at connect time, covering hosts whose DNS answer changed after assertPublicHost
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses: any) => {
+    if (err) return callback(err, "", 0);
+    const list = addresses as dns.LookupAddress[];
+    const blocked = !allowPrivate() && list.some(entry => isBlockedAddress(entry.address));
+    if (blocked) return callback(new FetchError("That address points to a private or local network", "BLOCKED_HOST"), "", 0);
+    if ((options as any).all) return (callback as any)(null, list);
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup } as http.AgentOptions);
+const httpsAgent = new https.Agent({ lookup: guardedLookup } as https.AgentOptions);
+
+const mediaType = (header: unknown) => String(header || "").split(";")[0].trim().toLowerCase();
+
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<FetchedResponse> {
+  const { expect = "any", headers, signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxBytes = DEFAULT_MAX_BYTES, maxRedirects = DEFAULT_MAX_REDIRECTS } = options;
+  let url = rawUrl;
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      throw new FetchError("Invalid URL", "BAD_PROTOCOL");
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new FetchError("Only http and https URLs can be fetched", "BAD_PROTOCOL");
+    }
+    await assertPublicHost(parsed.hostname);
+
+    let response;
+    try {
+      response = await axios.get(parsed.toString(), {
+        headers: { "User-Agent": USER_AGENT, ...headers },
+        signal,
+        timeout: timeoutMs,
+        maxRedirects: 0,
+        maxContentLength: maxBytes,
+        responseType: "arraybuffer",
+        httpAgent,
+        httpsAgent,
+        proxy: false,
+        validateStatus: () => true,
+      });
+    } catch (e: any) {
+      if (e instanceof FetchError) throw e;
+      if (e.cause instanceof FetchError) throw e.cause;
+      if (e.message?.includes("maxContentLength")) throw new FetchError("The response is too large", "TOO_LARGE");
+      if (e.code === "ECONNABORTED" || e.code === "ETIMEDOUT" || e.name === "CanceledError") {
+        throw new FetchError("The request timed out", "TIMEOUT");
+      }
+      throw new FetchError(e.message || "Request failed", "NETWORK_ERROR");
+    }
+
+    if (response.status >= 300 && response.status < 400 && response.headers.location) {
+      url = new URL(response.headers.location, parsed).toString();
+      continue;
+    }
+    if (response.status >= 400) {
+      const error = new FetchError(`Request failed with status code ${response.status}`, "HTTP_ERROR", response.status);
+      if (response.status === 429 || response.status === 503) error.retryAfter = parseRetryAfter(response.headers["retry-after"]);
+      throw error;
+    }
+
+    const responseHeaders = Object.fromEntries(Object.entries(response.headers).map(([key, value]) => [key, String(value)]));
+    // Answer to a conditional request: no body, and the caller's cached copy is still current
+    if (response.status === 304) {
+      return { url: parsed.toString(), status: 304, headers: responseHeaders, content_type: "", body: Buffer.alloc(0) };
+    }
+
+    const contentType = mediaType(response.headers["content-type"]);
+    if (expect !== "any" && !CONTENT_TYPES[expect].test(contentType)) {
+      throw new FetchError(`Expected ${expect} but got ${contentType || "an unknown content type"}`, "UNSUPPORTED_CONTENT");
+    }
+
+    return {
+      url: parsed.toString(),
+      status: response.status,
+      headers: responseHeaders,
+      content_type: contentType,
+      body: Buffer.from(response.data),
+    };
+  }
+  throw new FetchError("Too many redirects", "TOO_MANY_REDIRECTS");
+}
+
+// Decodes with the charset the server declared, falling back to UTF-8
+export function responseText(response: FetchedResponse) {
+  const charset = response.headers["content-type"]?.match(/charset=([^;]+)/i)?.[1]?.trim().replace(/"/g, "");
+  try {
+    return new TextDecoder(charset || "utf-8").decode(response.body);
+  } catch (e) {
+    return response.body.toString("utf8");
+  }
+}
+
+export const fetchText = async (url: string, options: SafeFetchOptions = {}) => responseText(await safeFetch(url, options));
+
+export const fetchJson = async <T = any>(url: string, options: SafeFetchOptions = {}): Promise<T> =>
+  JSON.parse(responseText(await safeFetch(url, { expect: "json", ...options })));
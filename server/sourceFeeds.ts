@@ -0,0 +1,188 @@
+import type { Database } from "better-sqlite3";
+import * as cheerio from "cheerio";
+import validator from "validator";
+import { politeFetch } from "./politeFetch";
+import { responseText } from "./safeFetch";
+
+// Source feeds: a blog's RSS/Atom feed or sitemap is checked periodically, and every
+// URL not seen before is handed to the queue (which turns it into a batch job of draft pins).
+
+export const MAX_NEW_PER_CHECK = 50;
+export const MAX_BACKFILL = 20;
+const CHECK_INTERVAL_MINUTES = Number(process.env.FEED_CHECK_MINUTES) || 60;
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+// A sitemap index can list hundreds of child sitemaps; the most recently modified ones hold new posts
+const MAX_CHILD_SITEMAPS = 5;
+
+export type FeedKind = "rss" | "atom" | "sitemap" | "sitemap_index";
+
+export interface FeedEntry {
+  url: string;
+  published_at: string | null;
+}
+
+export interface ParsedFeed {
+  kind: FeedKind;
+  title: string | null;
+  entries: FeedEntry[];
+}
+
+export interface FeedQueue {
+  // Creates a job for the URLs and returns its id; runs inside the check's transaction
+  create: (feed: any, urls: string[]) => number | bigint;
+  // Starts the created jobs, once the transaction has committed
+  start: () => void;
+}
+
+export class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedError";
+  }
+}
+
+const toEntry = (href: string | undefined, base: string, date?: string): FeedEntry | null => {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base).toString();
+    if (!validator.isURL(url, { require_protocol: true, protocols: ["http", "https"] })) return null;
+    const parsed = date ? Date.parse(date.trim()) : NaN;
+    return { url, published_at: Number.isNaN(parsed) ? null : new Date(parsed).toISOString() };
+  } catch (e) {
+    return null;
+  }
+};
+
+// Pure so it can run against saved feeds. Entries come back newest first where the feed dates them.
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xml: true });
+  let parsed: ParsedFeed;
+
+  if ($("rss, rdf\\:RDF").length > 0) {
+    parsed = {
+      kind: "rss",
+      title: $("channel > title").first().text().trim() || null,
+      entries: $("item").map((_, el) => {
+        const item = $(el);
+        const guid = item.children("guid");
+        const link = item.children("link").first().text() || (guid.attr("isPermaLink") !== "false" ? guid.text() : "");
+        return toEntry(link, feedUrl, item.children("pubDate").text() || item.children("dc\\:date").text());
+      }).get(),
+    };
+  } else if ($("feed").length > 0) {
+    parsed = {
+      kind: "atom",
+      title: $("feed > title").first().text().trim() || null,
+      entries: $("entry").map((_, el) => {
+        const entry = $(el);
+        const link = entry.children("link[rel='alternate']").attr("href") || entry.children("link:not([rel])").attr("href") || entry.children("link").attr("href");
+        return toEntry(link, feedUrl, entry.children("published").text() || entry.children("updated").text());
+      }).get(),
+    };
+  } else if ($("urlset").length > 0 || $("sitemapindex").length > 0) {
+    const isIndex = $("sitemapindex").length > 0;
+    parsed = {
+      kind: isIndex ? "sitemap_index" : "sitemap",
+      title: null,
+      entries: $(isIndex ? "sitemap" : "url").map((_, el) => toEntry($(el).children("loc").text(), feedUrl, $(el).children("lastmod").text())).get(),
+    };
+  } else {
+    throw new FeedError("That URL isn't an RSS feed, Atom feed or sitemap");
+  }
+
+  const seen = new Set<string>();
+  parsed.entries = parsed.entries
+    .filter(entry => !seen.has(entry.url) && !!seen.add(entry.url))
+    .sort((a, b) => (b.published_at || "").localeCompare(a.published_at || ""));
+  return parsed;
+}
+
+const fetchXml = async (url: string) =>
+  parseFeed(responseText(await politeFetch(url, { expect: "xml", timeoutMs: 15000, maxBytes: 10 * 1024 * 1024 })), url);
+
+export async function fetchFeed(url: string): Promise<ParsedFeed> {
+  const feed = await fetchXml(url);
+  if (feed.kind !== "sitemap_index") return feed;
+
+  // Child sitemaps are merged into one list; nested indexes go no deeper
+  const entries: FeedEntry[] = [];
+  const children = feed.entries.slice(0, MAX_CHILD_SITEMAPS);
+  let failed = 0;
+  for (const child of children) {
+    try {
+      const childFeed = await fetchXml(child.url);
+      if (childFeed.kind === "sitemap") entries.push(...childFeed.entries);
+    } catch (e: any) {
+      failed++;
+      console.warn(`Child sitemap ${child.url} failed:`, e.message);
+    }
+  }
+  // Reading none of them is a failed check, not an empty sitemap
+  if (children.length > 0 && failed === children.length) throw new FeedError("None of the sitemap index's sitemaps could be read");
+  return { ...feed, entries: entries.sort((a, b) => (b.published_at || "").localeCompare(a.published_at || "")) };
+}
+
+// Fetches a feed, records every URL it lists and queues the ones never seen before.
+// On the first successful check of a feed (seeded_at still unset) only the newest
+// `backfill` entries are queued; the rest count as already published so registering a
+// big sitemap doesn't flood History.
+export async function checkFeed(db: Database, feed: any, queue: FeedQueue, backfill = 0) {
+  try {
+    const parsed = await fetchFeed(feed.url);
+    const { seeded_at } = db.prepare("SELECT seeded_at FROM source_feeds WHERE id = ?").get(feed.id) as { seeded_at: string | null };
+    const known = db.prepare("SELECT 1 FROM feed_entries WHERE feed_id = ? AND url = ?");
+    const fresh = parsed.entries.filter(entry => !known.get(feed.id, entry.url));
+    const toQueue = (!seeded_at ? fresh.slice(0, Math.min(backfill, MAX_BACKFILL)) : fresh.slice(0, MAX_NEW_PER_CHECK)).map(entry => entry.url);
+
+    // The first check records the whole feed as seen; after that, entries past the per-check cap
+    // stay unrecorded so the next check picks them up
+    const toRecord = seeded_at ? fresh.filter(entry => toQueue.includes(entry.url)) : fresh;
+
+    db.transaction(() => {
+      const jobId = toQueue.length > 0 ? queue.create(feed, toQueue) : null;
+      const insert = db.prepare("INSERT OR IGNORE INTO feed_entries (feed_id, url, published_at, batch_job_id) VALUES (?, ?, ?, ?)");
+      for (const entry of toRecord) {
+        insert.run(feed.id, entry.url, entry.published_at, toQueue.includes(entry.url) ? jobId : null);
+      }
+      db.prepare(`
+        UPDATE source_feeds SET kind = ?, title = COALESCE(title, ?), last_checked_at = CURRENT_TIMESTAMP, last_error = NULL,
+               seeded_at = COALESCE(seeded_at, CURRENT_TIMESTAMP)
+        WHERE id = ?
+      `).run(parsed.kind, parsed.title, feed.id);
+    })();
+    if (toQueue.length > 0) {
+      queue.start();
+      console.log(`Feed ${feed.id} queued ${toQueue.length} new URLs`);
+    }
+    return { found: parsed.entries.length, queued: toQueue.length };
+  } catch (e: any) {
+    db.prepare("UPDATE source_feeds SET last_checked_at = CURRENT_TIMESTAMP, last_error = ? WHERE id = ?").run(e.message || "Unknown error", feed.id);
+    throw e;
+  }
+}
+
+export function startFeedPoller(db: Database, queue: FeedQueue) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const due = db.prepare(`
+        SELECT * FROM source_feeds
+        WHERE enabled = 1 AND (last_checked_at IS NULL OR last_checked_at <= datetime('now', ?))
+        ORDER BY last_checked_at
+      `).all(`-${CHECK_INTERVAL_MINUTES} minutes`);
+      for (const feed of due) {
+        await checkFeed(db, feed, queue).catch((e: any) => console.error(`Feed ${(feed as any).id} check failed:`, e.message));
+      }
+    } catch (e) {
+      console.error("Feed poller tick failed:", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,99 @@
+import { MAX_ASSET_BYTES, sniffImageType } from "./assets";
+import { type ResultOrigin, generateStructured } from "./llm";
+
+// Photos or a PDF (lookbook, ebook, printable) uploaded as the source of a pin set instead
+// of a URL. The model reads the files themselves and writes the source title and summary
+// that the rest of the Create flow would otherwise get from an extracted page.
+
+export const MAX_UPLOAD_FILES = 10;
+export const MAX_UPLOAD_BYTES = MAX_ASSET_BYTES;
+// Uploads are buffered in memory, so the whole request is capped too, not just each file
+export const MAX_UPLOAD_TOTAL_BYTES = 20 * 1024 * 1024;
+// Files go to the model inline, and a request is capped at 20MB including the prompt
+const MAX_MODEL_BYTES = 18 * 1024 * 1024;
+
+export interface UploadedFile {
+  name: string;
+  content_type: string;
+  data: Buffer;
+}
+
+export interface UploadDescription {
+  origin: ResultOrigin;
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Trust the bytes, not the client's Content-Type header
+const isPdf = (data: Buffer) => data.length > 5 && data.toString("ascii", 0, 5) === "%PDF-";
+
+// Either up to MAX_UPLOAD_FILES photos or a single PDF
+export function validateUploads(files: { originalname: string; buffer: Buffer }[]): UploadedFile[] {
+  if (files.length === 0) throw new UploadError("Choose at least one photo or a PDF");
+  if (files.length > MAX_UPLOAD_FILES) throw new UploadError(`Upload at most ${MAX_UPLOAD_FILES} files at once`);
+
+  const uploads = files.map(file => {
+    if (file.buffer.length === 0) throw new UploadError(`${file.originalname} is empty`);
+    if (file.buffer.length > MAX_UPLOAD_BYTES) throw new UploadError(`${file.originalname} is too large`, 413);
+    const contentType = isPdf(file.buffer) ? "application/pdf" : sniffImageType(file.buffer);
+    if (!contentType) throw new UploadError(`${file.originalname} isn't a JPEG, PNG, WebP, GIF or PDF file`, 415);
+    return { name: file.originalname, content_type: contentType, data: file.buffer };
+  });
+
+  const documents = uploads.filter(upload => upload.content_type === "application/pdf");
+  if (documents.length > 0 && uploads.length > 1) throw new UploadError("Upload one PDF on its own, or photos only");
+  if (documents.length > 0 && documents[0].data.length > MAX_MODEL_BYTES) throw new UploadError("PDFs can be at most 18MB", 413);
+  return uploads;
+}
+
+export async function describeUploads(uploads: UploadedFile[]): Promise<UploadDescription> {
+  const isDocument = uploads[0].content_type === "application/pdf";
+  // As many photos as fit in one request, in upload order
+  let budget = MAX_MODEL_BYTES;
+  const sent = uploads.filter(upload => (budget -= upload.data.length) >= 0);
+  if (sent.length === 0) throw new UploadError("These photos are too large to analyse together; upload fewer or smaller ones", 413);
+
+  const { value: result, origin } = await generateStructured<any>({
+    files: sent.map(upload => ({ data: upload.data, mime_type: upload.content_type })),
+    prompt: `Act as a Pinterest content strategist. ${isDocument
+      ? "This PDF is the source for a set of Pins (it may be a lookbook, ebook, guide or printable). Read its text and images."
+      : `These ${sent.length === 1 ? "photo is" : "photos are"} the source for a set of Pins. Look closely at what they show: products, styles, colours, settings, any visible text.`}
+
+    Return:
+    - title: what this is about, as a plain descriptive title (under 100 characters)
+    - summary: 2-3 concise sentences describing the content, suitable as a source description for Pin copy
+    - key_points: up to 8 specific facts, tips or items it actually contains
+    - tags: up to 8 short keywords
+    Only describe what is really there; don't invent details.`,
+    schema: {
+      type: "object",
+      properties: {
+        title: { type: "string", minLength: 1, maxLength: 100 },
+        summary: { type: "string", minLength: 1, maxLength: 1000 },
+        key_points: { type: "array", maxItems: 8, items: { type: "string", minLength: 1 } },
+        tags: { type: "array", maxItems: 8, items: { type: "string", minLength: 1, maxLength: 40 } },
+      },
+      required: ["title", "summary"],
+    },
+    fallback: null,
+  });
+  // The upload itself still succeeds; the user writes the source text
+  if (!result) return { origin, title: "", description: "", tags: [] };
+
+  const keyPoints: string[] = Array.isArray(result.key_points) ? result.key_points.filter(Boolean) : [];
+  return {
+    origin,
+    title: String(result.title || "").trim(),
+    // Same "SUMMARY:" digest shape the page extractors produce
+    description: `SUMMARY: ${String(result.summary || "").trim()}${keyPoints.length > 0 ? `\nKey points:\n${keyPoints.map(point => `- ${point}`).join("\n")}` : ""}`.substring(0, 2000),
+    tags: Array.isArray(result.tags) ? result.tags.map(String).slice(0, 8) : [],
+  };
+}
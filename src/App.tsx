@@ -18,7 +18,17 @@ import {
   UserPlus,
   LogOut,
   Mail,
-  Lock
+  Lock,
+  CalendarClock,
+  Pencil,
+  Copy,
+  RotateCcw,
+  Trash2,
+  Layers,
+  Upload,
+  Download,
+  Rss,
+  ShieldCheck
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
@@ -30,7 +40,7 @@ import {
   Tooltip, 
   ResponsiveContainer 
 } from 'recharts';
-import { generatePinContent, generatePinImage, editPinImage, PinContent } from './services/geminiService';
+import { generatePinContent, generateChapterPins, generatePinImage, editPinImage, fetchGenerationDefaults, saveGenerationDefaults, GenerationDefaults, GenerationOptions, PinContent } from './services/generationApi';
 
 // --- Types ---
 interface Trend {
@@ -44,17 +54,136 @@ interface Trend {
   historical_data?: { date: string; value: number }[];
 }
 
+// schema.org details the server found on the page (recipe, product, article or how-to)
+interface StructuredDetails {
+  type: 'recipe' | 'product' | 'article' | 'howto';
+  author?: string | null;
+  ingredients?: string[];
+  prep_time?: string | null;
+  cook_time?: string | null;
+  total_time?: string | null;
+  servings?: string | null;
+  price?: string | null;
+  availability?: string | null;
+  brand?: string | null;
+  steps?: string[];
+}
+
+interface VideoChapter {
+  title: string;
+  start_seconds: number;
+  end_seconds: number | null;
+  excerpt: string;
+  // Watch link that starts at the chapter
+  url: string;
+  source: 'description' | 'transcript';
+}
+
 interface Metadata {
   title: string;
   description: string;
   image: string;
+  // Photo candidates from the page, best first
+  images?: string[];
+  structured?: StructuredDetails | null;
+  chapters?: VideoChapter[];
+  // Served from the extraction cache, and when it was fetched
+  from_cache?: boolean;
+  cached_at?: string;
+  // Set when the source is uploaded photos or a PDF rather than a link
+  file_names?: string[];
+  warning?: string;
 }
 
 interface GeneratedPin extends PinContent {
   imageUrl: string | null;
   id: string;
+  boardId?: string | null;
+  boardSectionId?: string | null;
+  // Destination link with the user's UTM and affiliate rules already applied
+  link?: string;
+  // Set when the pin being edited is already saved in History
+  savedId?: number;
+}
+
+interface Board {
+  id: string;
+  name: string;
+  privacy?: string;
+  sections: { id: string; name: string }[];
+}
+
+interface BoardDefault {
+  id: number;
+  match_type: 'domain' | 'category';
+  match_value: string;
+  board_id: string;
+  board_section_id: string | null;
+}
+
+interface LinkRule {
+  id: number;
+  match_value: string;
+  param: string;
+  value: string;
+}
+
+interface BrandKit {
+  id: number;
+  name: string;
+  logo_asset_id: string | null;
+  logo_url: string | null;
+  palette: string[];
+  heading_font: string;
+  body_font: string;
+  voice: string;
+  banned_phrases: string[];
+  is_default: boolean;
 }
 
+// The kit being created (no id) or edited in Settings
+type BrandKitDraft = Omit<BrandKit, 'id'> & { id?: number };
+
+const EMPTY_BRAND_KIT: BrandKitDraft = {
+  name: '',
+  logo_asset_id: null,
+  logo_url: null,
+  palette: [],
+  heading_font: '',
+  body_font: '',
+  voice: '',
+  banned_phrases: [],
+  is_default: false
+};
+
+interface ComplianceReport {
+  compliant: boolean;
+  // False when the AI review of voice and visuals couldn't run; banned phrases are always checked
+  reviewed: boolean;
+  issues: { pin: number; kind: 'banned_phrase' | 'voice' | 'visual'; message: string }[];
+}
+
+// SQLite CURRENT_TIMESTAMP / datetime() values are UTC without a zone suffix
+const parseDbDate = (value: string) => new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+// 3723 → "1:02:03"
+const formatTimestamp = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(Math.floor(seconds % 60)).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Value for a datetime-local input, one hour from now in the browser's timezone
+const defaultScheduleTime = () => {
+  const d = new Date(Date.now() + 60 * 60 * 1000);
+  d.setMinutes(0, 0, 0);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+// Id of an image already in the asset store, from its /api/assets URL
+const assetIdFromUrl = (imageUrl: string) => imageUrl.match(/^\/api\/assets\/([a-f0-9]{64})$/)?.[1] || null;
+
 // --- Components ---
 
 const TabButton = ({ active, icon: Icon, label, onClick }: any) => (
@@ -67,6 +196,34 @@ const TabButton = ({ active, icon: Icon, label, onClick }: any) => (
   </button>
 );
 
+// Boards and their sections in one picker; a section value is "boardId/sectionId"
+const BoardSelect = ({ boards, boardId, sectionId, onChange, className = '' }: {
+  boards: Board[];
+  boardId?: string | null;
+  sectionId?: string | null;
+  onChange: (boardId: string | null, sectionId: string | null) => void;
+  className?: string;
+}) => (
+  <select
+    value={boardId ? (sectionId ? `${boardId}/${sectionId}` : boardId) : ''}
+    onChange={(e) => {
+      const [board, section] = e.target.value.split('/');
+      onChange(board || null, section || null);
+    }}
+    className={`ios-input text-sm ${className}`}
+  >
+    <option value="">Choose a board...</option>
+    {boards.map((board) => (
+      <React.Fragment key={board.id}>
+        <option value={board.id}>{board.name}</option>
+        {board.sections.map((section) => (
+          <option key={section.id} value={`${board.id}/${section.id}`}>{board.name} › {section.name}</option>
+        ))}
+      </React.Fragment>
+    ))}
+  </select>
+);
+
 const Header = ({ title, subtitle }: { title: string; subtitle?: string }) => (
   <div className="px-6 pt-12 pb-6">
     <h1 className="text-3xl font-bold tracking-tight">{title}</h1>
@@ -80,11 +237,55 @@ export default function App() {
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [url, setUrl] = useState('');
+  const [sourceMode, setSourceMode] = useState<'link' | 'upload'>('link');
+  // Run picked upload photos through editPinImage instead of using them as they are
+  const [restylePhotos, setRestylePhotos] = useState(false);
   const [metadata, setMetadata] = useState<Metadata | null>(null);
   const [manualEntry, setManualEntry] = useState(false);
   const [errorDetails, setErrorDetails] = useState<string | null>(null);
   const [generatedPins, setGeneratedPins] = useState<GeneratedPin[]>([]);
   const [history, setHistory] = useState<any[]>([]);
+  const [queue, setQueue] = useState<any[]>([]);
+  const [schedulingPins, setSchedulingPins] = useState<any[] | null>(null);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [boardDefaults, setBoardDefaults] = useState<BoardDefault[]>([]);
+  const [linkRules, setLinkRules] = useState<LinkRule[]>([]);
+  const [newLinkRule, setNewLinkRule] = useState<Omit<LinkRule, 'id'>>({ match_value: '', param: '', value: '' });
+  const [newBoardDefault, setNewBoardDefault] = useState<Omit<BoardDefault, 'id'>>({ match_type: 'domain', match_value: '', board_id: '', board_section_id: null });
+  const [pinCategory, setPinCategory] = useState<string | null>(null);
+  const [selectedPhotos, setSelectedPhotos] = useState<string[]>([]);
+  // Start times of the video chapters to turn into pins; none means regular variations
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([]);
+  // Copy options for the next generation, starting from the user's saved defaults
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions | null>(null);
+  const [generationPresets, setGenerationPresets] = useState<Omit<GenerationDefaults, 'options'>>({ tones: [], cta_styles: [] });
+  const [showCopyOptions, setShowCopyOptions] = useState(false);
+  const [isSavingDefaults, setIsSavingDefaults] = useState(false);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  // Kit applied to the next generation; starts as the user's default kit
+  const [brandKitId, setBrandKitId] = useState<number | null>(null);
+  const [brandKitDraft, setBrandKitDraft] = useState<BrandKitDraft | null>(null);
+  const [isSavingBrandKit, setIsSavingBrandKit] = useState(false);
+  const [complianceReport, setComplianceReport] = useState<ComplianceReport | null>(null);
+  const [isCheckingCompliance, setIsCheckingCompliance] = useState(false);
+  const [revisionsPin, setRevisionsPin] = useState<any | null>(null);
+  const [revisions, setRevisions] = useState<any[]>([]);
+  const [createMode, setCreateMode] = useState<'single' | 'batch'>('single');
+  const [batches, setBatches] = useState<any[]>([]);
+  const [batchInput, setBatchInput] = useState('');
+  const [batchPinsPerUrl, setBatchPinsPerUrl] = useState(3);
+  const [isStartingBatch, setIsStartingBatch] = useState(false);
+  const [expandedBatch, setExpandedBatch] = useState<any | null>(null);
+  const [feeds, setFeeds] = useState<any[]>([]);
+  const [newFeedUrl, setNewFeedUrl] = useState('');
+  const [newFeedBackfill, setNewFeedBackfill] = useState(0);
+  const [isAddingFeed, setIsAddingFeed] = useState(false);
+  const [historyStatus, setHistoryStatus] = useState('all');
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [selectedPinIds, setSelectedPinIds] = useState<number[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
   const [step, setStep] = useState(1); // 1: Input, 2: Metadata, 3: Generated
   const [isConnected, setIsConnected] = useState(false);
   const [searchResults, setSearchResults] = useState<Trend | null>(null);
@@ -105,9 +306,10 @@ export default function App() {
   useEffect(() => {
     checkAuth();
     fetchTrends();
-    fetchHistory();
 
     const handleMessage = (event: MessageEvent) => {
+      // Only our own OAuth callback page may report a successful connection
+      if (event.origin !== window.location.origin) return;
       if (event.data?.type === 'OAUTH_AUTH_SUCCESS') {
         setIsConnected(true);
         alert("Successfully connected to Pinterest!");
@@ -117,6 +319,19 @@ export default function App() {
     return () => window.removeEventListener('message', handleMessage);
   }, []);
 
+  useEffect(() => {
+    if (user && isConnected) fetchBoards();
+  }, [user, isConnected]);
+
+  // Batches run on the server; poll for progress while the Batches view is open
+  useEffect(() => {
+    if (!user || activeTab !== 'create' || createMode !== 'batch') return;
+    fetchBatches();
+    fetchFeeds();
+    const timer = setInterval(fetchBatches, 3000);
+    return () => clearInterval(timer);
+  }, [user, activeTab, createMode, expandedBatch?.id]);
+
   const checkAuth = async () => {
     try {
       const res = await fetch('/api/auth/me');
@@ -124,6 +339,11 @@ export default function App() {
         const data = await res.json();
         setUser(data);
         setIsConnected(data.isConnected);
+        fetchHistory();
+        fetchBoardDefaults();
+        fetchLinkRules();
+        loadGenerationDefaults();
+        fetchBrandKits(true);
       }
     } catch (e) {
       console.error(e);
@@ -157,6 +377,11 @@ export default function App() {
   const handleLogout = async () => {
     await fetch('/api/auth/logout', { method: 'POST' });
     setUser(null);
+    setHistory([]);
+    setGenerationOptions(null);
+    setBrandKits([]);
+    setBrandKitId(null);
+    setQueue([]);
     setActiveTab('trends');
   };
 
@@ -172,17 +397,390 @@ export default function App() {
 
   const fetchHistory = async () => {
     try {
-      const res = await fetch('/api/pins');
+      const [res, queueRes] = await Promise.all([fetch('/api/pins'), fetch('/api/pins/queue')]);
+      if (!res.ok) return;
       const data = await res.json();
       setHistory(data);
+      if (queueRes.ok) setQueue(await queueRes.json());
     } catch (e) {
       console.error(e);
     }
   };
 
+  const fetchBoards = async (refresh = false) => {
+    try {
+      const res = await fetch(`/api/boards${refresh ? '?refresh=1' : ''}`);
+      const data = await res.json();
+      if (res.ok) {
+        setBoards(data);
+      } else if (data.code === 'AUTH_EXPIRED' || data.code === 'AUTH_REQUIRED') {
+        setIsConnected(false);
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const fetchBoardDefaults = async () => {
+    try {
+      const res = await fetch('/api/boards/defaults');
+      if (res.ok) setBoardDefaults(await res.json());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const boardLabel = (boardId: string, sectionId?: string | null) => {
+    const board = boards.find(b => b.id === boardId);
+    if (!board) return boardId;
+    const section = sectionId ? board.sections.find(s => s.id === sectionId) : null;
+    return section ? `${board.name} › ${section.name}` : board.name;
+  };
+
+  const handleSaveBoardDefault = async () => {
+    try {
+      const res = await fetch('/api/boards/defaults', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newBoardDefault)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to save default board");
+        return;
+      }
+      setNewBoardDefault({ ...newBoardDefault, match_value: '' });
+      fetchBoardDefaults();
+    } catch (e) {
+      alert("Failed to save default board");
+    }
+  };
+
+  const handleDeleteBoardDefault = async (rule: BoardDefault) => {
+    try {
+      await fetch(`/api/boards/defaults/${rule.id}`, { method: 'DELETE' });
+      fetchBoardDefaults();
+    } catch (e) {
+      alert("Failed to remove default board");
+    }
+  };
+
+  const fetchLinkRules = async () => {
+    try {
+      const res = await fetch('/api/links/rules');
+      if (res.ok) setLinkRules(await res.json());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const saveLinkRule = async (rule: object) => {
+    try {
+      const res = await fetch('/api/links/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to save link rule");
+        return false;
+      }
+      fetchLinkRules();
+      return true;
+    } catch (e) {
+      alert("Failed to save link rule");
+      return false;
+    }
+  };
+
+  const handleSaveLinkRule = async () => {
+    if (await saveLinkRule(newLinkRule)) setNewLinkRule({ ...newLinkRule, param: '', value: '' });
+  };
+
+  const handleDeleteLinkRule = async (rule: LinkRule) => {
+    try {
+      await fetch(`/api/links/rules/${rule.id}`, { method: 'DELETE' });
+      fetchLinkRules();
+    } catch (e) {
+      alert("Failed to remove link rule");
+    }
+  };
+
+  const loadGenerationDefaults = async () => {
+    try {
+      const defaults = await fetchGenerationDefaults();
+      if (!defaults) return;
+      setGenerationOptions(defaults.options);
+      setGenerationPresets({ tones: defaults.tones, cta_styles: defaults.cta_styles });
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const updateGenerationOptions = (changes: Partial<GenerationOptions>) => {
+    if (generationOptions) setGenerationOptions({ ...generationOptions, ...changes });
+  };
+
+  const handleSaveGenerationDefaults = async () => {
+    if (!generationOptions) return;
+    setIsSavingDefaults(true);
+    try {
+      setGenerationOptions(await saveGenerationDefaults(generationOptions));
+      alert("Saved as your default copy options");
+    } catch (e: any) {
+      alert(e.message || "Failed to save defaults");
+    } finally {
+      setIsSavingDefaults(false);
+    }
+  };
+
+  const fetchBrandKits = async (selectDefault = false) => {
+    try {
+      const res = await fetch('/api/brand-kits');
+      if (!res.ok) return;
+      const kits: BrandKit[] = await res.json();
+      setBrandKits(kits);
+      if (selectDefault) setBrandKitId(kits.find(kit => kit.is_default)?.id ?? null);
+      // Drop the selection when its kit was deleted
+      else setBrandKitId(current => kits.some(kit => kit.id === current) ? current : null);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleUploadBrandLogo = async (file: File) => {
+    if (!brandKitDraft) return;
+    try {
+      const res = await fetch('/api/assets', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'image/png' },
+        body: file
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Logo upload failed");
+        return;
+      }
+      setBrandKitDraft({ ...brandKitDraft, logo_asset_id: data.id, logo_url: data.url });
+    } catch (e) {
+      alert("Logo upload failed");
+    }
+  };
+
+  const handleSaveBrandKit = async () => {
+    if (!brandKitDraft) return;
+    setIsSavingBrandKit(true);
+    try {
+      const { id, logo_url, ...kit } = brandKitDraft;
+      const res = await fetch(id ? `/api/brand-kits/${id}` : '/api/brand-kits', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...kit, palette: kit.palette.filter(Boolean) })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to save brand kit");
+        return;
+      }
+      setBrandKitDraft(null);
+      fetchBrandKits(!id && data.is_default);
+    } catch (e) {
+      alert("Failed to save brand kit");
+    } finally {
+      setIsSavingBrandKit(false);
+    }
+  };
+
+  const handleDeleteBrandKit = async (kit: BrandKit) => {
+    if (!confirm(`Delete the ${kit.name} brand kit? Pins already created keep their copy and images.`)) return;
+    try {
+      await fetch(`/api/brand-kits/${kit.id}`, { method: 'DELETE' });
+      fetchBrandKits();
+    } catch (e) {
+      alert("Failed to delete brand kit");
+    }
+  };
+
+  // Checks the generated copy, and the first pin's image, against the kit used to generate them
+  const handleCheckCompliance = async () => {
+    if (!brandKitId || generatedPins.length === 0) return;
+    setIsCheckingCompliance(true);
+    try {
+      const res = await fetch(`/api/brand-kits/${brandKitId}/check`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pins: generatedPins.map(({ title, description }) => ({ title, description })),
+          asset_id: generatedPins[0].imageUrl ? assetIdFromUrl(generatedPins[0].imageUrl) : null
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Brand check failed");
+        return;
+      }
+      setComplianceReport(data);
+    } catch (e) {
+      alert("Brand check failed");
+    } finally {
+      setIsCheckingCompliance(false);
+    }
+  };
+
+  // Applies the link rules to the source URL for one variation
+  const buildLink = async (sourceUrl: string, keyword: string | undefined, variant: number) => {
+    if (!sourceUrl) return '';
+    try {
+      const res = await fetch('/api/links/build', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: sourceUrl, keyword, variant })
+      });
+      return res.ok ? (await res.json()).link as string : sourceUrl;
+    } catch (e) {
+      return sourceUrl;
+    }
+  };
+
+  const handleAssignBoard = async (pin: any, boardId: string | null, sectionId: string | null) => {
+    setHistory(prev => prev.map(p => p.id === pin.id ? { ...p, board_id: boardId, board_section_id: sectionId } : p));
+    try {
+      await fetch(`/api/pins/${pin.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ board_id: boardId, board_section_id: sectionId })
+      });
+    } catch (e) {
+      alert("Failed to update board");
+      fetchHistory();
+    }
+  };
+
+  const fetchBatches = async () => {
+    try {
+      const res = await fetch('/api/batches');
+      if (res.ok) setBatches(await res.json());
+      if (expandedBatch) {
+        const detailRes = await fetch(`/api/batches/${expandedBatch.id}`);
+        if (detailRes.ok) setExpandedBatch(await detailRes.json());
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleBatchFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setBatchInput(prev => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+    e.target.value = '';
+  };
+
+  const handleStartBatch = async () => {
+    setIsStartingBatch(true);
+    try {
+      const res = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: batchInput, pins_per_url: batchPinsPerUrl })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to start batch");
+        return;
+      }
+      setBatchInput('');
+      setExpandedBatch(data);
+      fetchBatches();
+    } catch (e) {
+      alert("Failed to start batch");
+    } finally {
+      setIsStartingBatch(false);
+    }
+  };
+
+  const handleBatchAction = async (batch: any, action: 'cancel' | 'retry') => {
+    try {
+      const res = await fetch(`/api/batches/${batch.id}/${action}`, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Batch update failed");
+      }
+      fetchBatches();
+    } catch (e) {
+      alert("Batch update failed");
+    }
+  };
+
+  const toggleBatch = async (batch: any) => {
+    if (expandedBatch?.id === batch.id) {
+      setExpandedBatch(null);
+      return;
+    }
+    const res = await fetch(`/api/batches/${batch.id}`);
+    if (res.ok) setExpandedBatch(await res.json());
+  };
+
+  const fetchFeeds = async () => {
+    try {
+      const res = await fetch('/api/feeds');
+      if (res.ok) setFeeds(await res.json());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleAddFeed = async () => {
+    setIsAddingFeed(true);
+    try {
+      const res = await fetch('/api/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: newFeedUrl.trim(), pins_per_url: batchPinsPerUrl, backfill: newFeedBackfill })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to add feed");
+        return;
+      }
+      setNewFeedUrl('');
+      fetchFeeds();
+      fetchBatches();
+    } catch (e) {
+      alert("Failed to add feed");
+    } finally {
+      setIsAddingFeed(false);
+    }
+  };
+
+  const handleFeedAction = async (feed: any, action: 'check' | 'toggle' | 'delete') => {
+    if (action === 'delete' && !confirm("Stop watching this feed? Pins already created stay in History.")) return;
+    try {
+      const res = action === 'check'
+        ? await fetch(`/api/feeds/${feed.id}/check`, { method: 'POST' })
+        : action === 'toggle'
+          ? await fetch(`/api/feeds/${feed.id}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ enabled: !feed.enabled })
+            })
+          : await fetch(`/api/feeds/${feed.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) alert(data.error || "Feed update failed");
+      else if (action === 'check') alert(data.queued > 0 ? `Queued ${data.queued} new posts` : "No new posts");
+      fetchFeeds();
+      fetchBatches();
+    } catch (e) {
+      alert("Feed update failed");
+    }
+  };
+
   const handleConnect = async () => {
     try {
       const res = await fetch('/api/auth/url');
+      if (!res.ok) throw new Error("Failed to get auth URL");
       const { url } = await res.json();
       window.open(url, 'pinterest_oauth', 'width=600,height=700');
     } catch (e) {
@@ -238,79 +836,123 @@ export default function App() {
     document.body.removeChild(link);
   };
 
-  const handleDownloadAll = async () => {
-    const JSZip = (await import('jszip')).default;
-    const saveAs = (await import('file-saver')).saveAs;
-    const zip = new JSZip();
+  // Downloads a ZIP with a Pinterest bulk-create CSV and the pin images
+  const downloadExport = async (body: object) => {
+    setIsExporting(true);
+    try {
+      const res = await fetch('/api/pins/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to export pins");
+        return;
+      }
+      const saveAs = (await import('file-saver')).saveAs;
+      saveAs(await res.blob(), 'pinviral-export.zip');
+    } catch (e) {
+      alert("An error occurred while exporting pins.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-    generatedPins.forEach((pin, index) => {
-      if (pin.imageUrl) {
-        const base64Data = pin.imageUrl.split(',')[1];
-        zip.file(`pin-${index + 1}.png`, base64Data, { base64: true });
+  // Generated variations aren't saved yet, so their images are uploaded first to get public media URLs
+  const handleExportGenerated = async () => {
+    setIsExporting(true);
+    try {
+      const pins = [];
+      for (const pin of generatedPins.filter(p => p.imageUrl)) {
+        pins.push({
+          title: pin.title,
+          description: pin.description,
+          source_url: url || '',
+          link: pin.link,
+          board_id: pin.boardId,
+          asset_id: await uploadImage(pin.imageUrl)
+        });
       }
-    });
+      await downloadExport({ pins });
+    } catch (e: any) {
+      alert(e.message || "An error occurred while exporting pins.");
+      setIsExporting(false);
+    }
+  };
+
+  const filteredHistory = history.filter(pin =>
+    (historyStatus === 'all' || pin.status === historyStatus) &&
+    (!historyQuery.trim() || `${pin.title} ${pin.description} ${pin.source_url}`.toLowerCase().includes(historyQuery.trim().toLowerCase()))
+  );
 
-    const content = await zip.generateAsync({ type: 'blob' });
-    saveAs(content, 'pinviral-pins.zip');
+  const togglePinSelection = (id: number) => {
+    setSelectedPinIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
   };
 
-  const handlePublish = async (pin: any, status: 'published' | 'scheduled' = 'published') => {
+  // Exports the ticked pins, or everything the current filter shows when nothing is ticked
+  const handleExportHistory = () => {
+    const visibleIds = filteredHistory.map(pin => pin.id);
+    const selected = selectedPinIds.filter(id => visibleIds.includes(id));
+    downloadExport({ pin_ids: selected.length > 0 ? selected : visibleIds });
+  };
+
+  const handlePublish = async (pin: any) => {
     if (!isConnected) {
       alert("Please connect your Pinterest account first.");
       setActiveTab('settings');
       return;
     }
 
+    const boardId = pin.created_at ? pin.board_id : pin.boardId;
+    const boardSectionId = pin.created_at ? pin.board_section_id : pin.boardSectionId;
+    if (!boardId) {
+      alert("Choose a board for this pin first.");
+      return;
+    }
+
     const pinId = pin.id;
     setPublishingId(pinId);
     try {
+      let image = { asset_id: pin.asset_id, image_url: pin.image_url };
+      let savedId = pin.id;
+      // A new pin (from generator) is saved as a draft first; the server marks it published
+      if (!pin.created_at) {
+        image = { asset_id: await uploadImage(pin.imageUrl), image_url: null };
+        const saveRes = await savePin(pin, 'draft', image.asset_id);
+        if (!saveRes.ok) throw new Error("Failed to save pin");
+        savedId = (await saveRes.json()).id;
+      }
+
       const res = await fetch('/api/pins/publish', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          pin_id: savedId,
           title: pin.title,
           description: pin.description,
-          image_url: pin.imageUrl || pin.image_url,
-          board_id: 'mock-board-id'
+          link: pin.link,
+          ...image,
+          board_id: boardId,
+          board_section_id: boardSectionId
         })
       });
       
       const data = await res.json();
 
       if (res.ok) {
-        // If it's a new pin (from generator), save it
-        if (!pin.created_at) {
-          await fetch('/api/pins', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              source_url: url || pin.source_url || '',
-              title: pin.title,
-              description: pin.description,
-              image_url: pin.imageUrl || pin.image_url,
-              status
-            })
-          });
-        } else {
-          // If it's from history, update status
-          await fetch(`/api/pins/${pin.id}`, {
-            method: 'PATCH',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ status })
-          });
-        }
-        
         setShowSuccess({ show: true, url: data.pin_url });
         setTimeout(() => setShowSuccess({ show: false, url: '' }), 5000);
-        fetchHistory();
       } else {
-        if (data.code === 'AUTH_EXPIRED') {
+        if (data.code === 'AUTH_EXPIRED' || data.code === 'AUTH_REQUIRED') {
           setIsConnected(false);
           alert(data.error);
         } else {
           alert(data.error || "Publishing failed");
         }
       }
+      // A failed publish still leaves a new pin in history as a draft
+      fetchHistory();
     } catch (e) {
       alert("Failed to publish pin");
     } finally {
@@ -318,16 +960,83 @@ export default function App() {
     }
   };
 
-  const handleExtract = async () => {
+  const openScheduler = (pins: any[]) => {
+    setSchedulingPins(pins);
+    setScheduleAt(defaultScheduleTime());
+  };
+
+  // Schedules each pin one day after the previous one, starting at scheduleAt
+  const handleSchedule = async () => {
+    if (!schedulingPins || !scheduleAt) return;
+    if (!isConnected) {
+      alert("Please connect your Pinterest account first.");
+      setSchedulingPins(null);
+      setActiveTab('settings');
+      return;
+    }
+
+    setIsScheduling(true);
+    try {
+      const start = new Date(scheduleAt);
+      for (const [index, pin] of schedulingPins.entries()) {
+        let pinId = pin.id;
+        // Generated variations are saved to history first so the worker has something to publish
+        if (!pin.created_at) {
+          const saveRes = await savePin(pin, 'draft');
+          if (!saveRes.ok) throw new Error("Failed to save pin");
+          pinId = (await saveRes.json()).id;
+        }
+
+        const res = await fetch(`/api/pins/${pinId}/schedule`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            scheduled_at: new Date(start.getTime() + index * 24 * 60 * 60 * 1000).toISOString(),
+            // History pins keep the board already assigned on the server
+            ...(pin.created_at ? {} : { board_id: pin.boardId, board_section_id: pin.boardSectionId })
+          })
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || "Scheduling failed");
+        }
+      }
+      alert(schedulingPins.length > 1 ? `${schedulingPins.length} pins scheduled!` : "Pin scheduled!");
+      setSchedulingPins(null);
+    } catch (e: any) {
+      alert(e.message || "Failed to schedule pin");
+    } finally {
+      setIsScheduling(false);
+      fetchHistory();
+    }
+  };
+
+  const handleUnschedule = async (pin: any) => {
+    try {
+      const res = await fetch(`/api/pins/${pin.id}/schedule`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to cancel");
+      }
+      fetchHistory();
+    } catch (e) {
+      alert("Failed to cancel scheduled pin");
+    }
+  };
+
+  // refresh re-reads the page instead of using the server's cached extraction
+  const handleExtract = async (refresh = false) => {
     if (!url) return;
     setLoading(true);
     setErrorDetails(null);
     setManualEntry(false);
+    setSelectedPhotos([]);
+    setSelectedChapters([]);
     try {
       const res = await fetch('/api/extract-metadata', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url })
+        body: JSON.stringify({ url, refresh })
       });
       const data = await res.json();
       
@@ -355,39 +1064,156 @@ export default function App() {
     }
   };
 
+  const handleUploadSource = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setLoading(true);
+    setErrorDetails(null);
+    setSelectedChapters([]);
+    try {
+      const form = new FormData();
+      files.forEach(file => form.append('files', file));
+      const res = await fetch('/api/sources/upload', { method: 'POST', body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Upload failed");
+        return;
+      }
+      // Uploads have no page to link back to; links can be added per pin
+      setUrl('');
+      setMetadata(data);
+      setSelectedPhotos(data.images || []);
+      setRestylePhotos(false);
+      setManualEntry(!!data.warning);
+      setErrorDetails(data.warning || null);
+      setStep(2);
+    } catch (e) {
+      alert("Upload failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importPhoto = async (photoUrl: string) => {
+    // Uploaded photos are already in the asset store
+    if (photoUrl.startsWith('/api/assets/')) return photoUrl;
+    const res = await fetch('/api/assets/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: photoUrl })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Couldn't use that photo");
+    return data.url as string;
+  };
+
+  const togglePhoto = (photoUrl: string) => {
+    setSelectedPhotos(prev => prev.includes(photoUrl) ? prev.filter(p => p !== photoUrl) : [...prev, photoUrl]);
+  };
+
+  const toggleChapter = (start: number) => {
+    setSelectedChapters(prev => prev.includes(start) ? prev.filter(s => s !== start) : [...prev, start]);
+  };
+
   const handleGenerate = async () => {
     if (!metadata) return;
     setLoading(true);
     try {
       const selectedTrends = trends.slice(0, 3).map(t => t.keyword);
-      const contents = await generatePinContent(metadata.title, metadata.description, selectedTrends);
+      const category = trends[0]?.category || null;
+      // Picked chapters become one pin each, linking to where that chapter starts
+      const chapters = (metadata.chapters || []).filter(chapter => selectedChapters.includes(chapter.start_seconds));
+      const { pins: contents, origin } = chapters.length > 0
+        ? await generateChapterPins(metadata.title, chapters, selectedTrends, generationOptions, brandKitId)
+        : await generatePinContent(metadata.title, metadata.description, selectedTrends, metadata.structured, generationOptions, brandKitId);
+
+      // Pre-select the default board for this source domain or trend category
+      const params = new URLSearchParams({ source_url: url, category: category || '' });
+      const defaultRes = await fetch(`/api/boards/defaults/resolve?${params.toString()}`);
+      const defaultBoard = defaultRes.ok ? await defaultRes.json() : {};
       
+      // Picked photos are copied into the asset store and rotated across the variations
+      const photoUrls = await Promise.all(selectedPhotos.map(importPhoto));
+
       const pinsWithImages = await Promise.all(contents.map(async (c, i) => {
-        const imageUrl = await generatePinImage(c.title);
-        return { ...c, imageUrl, id: Math.random().toString(36).substr(2, 9) };
+        const photoUrl = photoUrls.length > 0 ? photoUrls[i % photoUrls.length] : null;
+        const imageUrl = !photoUrl ? await generatePinImage(c.title, brandKitId)
+          : restylePhotos ? (await editPinImage((await uploadImage(photoUrl))!, `Use this photo as the background of a Pinterest pin titled "${c.title}". Keep the product or subject recognisable.`, brandKitId)) || photoUrl
+          : photoUrl;
+        return {
+          ...c,
+          imageUrl,
+          link: await buildLink(chapters[i]?.url || url, selectedTrends[0], i + 1),
+          id: Math.random().toString(36).substr(2, 9),
+          boardId: defaultBoard.board_id || null,
+          boardSectionId: defaultBoard.board_section_id || null
+        };
       }));
       
+      setPinCategory(category);      
       setGeneratedPins(pinsWithImages);
+      setComplianceReport(null);
       setStep(3);
-    } catch (e) {
-      alert("Generation failed");
+      if (origin === 'fallback') alert("The AI copy didn't pass validation, so these drafts use the source's own text. Edit them or generate again.");
+    } catch (e: any) {
+      alert(e.message || "Generation failed");
     } finally {
       setLoading(false);
     }
   };
 
-  const handleUpdatePin = (updatedPin: GeneratedPin) => {
-    setGeneratedPins(prev => prev.map(p => p.id === updatedPin.id ? updatedPin : p));
+  const handleUpdatePin = async (updatedPin: GeneratedPin) => {
+    if (updatedPin.savedId) {
+      const res = await updateSavedPin(updatedPin.savedId, { title: updatedPin.title, description: updatedPin.description, link: updatedPin.link });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to save changes");
+        return;
+      }
+      fetchHistory();
+    } else {
+      setGeneratedPins(prev => prev.map(p => p.id === updatedPin.id ? updatedPin : p));
+    }
     setEditingPin(null);
     setImageEditPrompt('');
   };
 
+  const updateSavedPin = (pinId: number, changes: Record<string, any>) => fetch(`/api/pins/${pinId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes)
+  });
+
+  const openHistoryEditor = (pin: any) => {
+    setEditingPin({
+      id: `saved-${pin.id}`,
+      savedId: pin.id,
+      title: pin.title || '',
+      description: pin.description || '',
+      imageUrl: pin.image_url,
+      link: pin.link || '',
+      boardId: pin.board_id,
+      boardSectionId: pin.board_section_id
+    });
+  };
+
   const handleEditImage = async () => {
     if (!editingPin || !editingPin.imageUrl || !imageEditPrompt) return;
     setIsEditingImage(true);
     try {
-      const newImageUrl = await editPinImage(editingPin.imageUrl, imageEditPrompt);
+      const newImageUrl = await editPinImage((await uploadImage(editingPin.imageUrl))!, imageEditPrompt, brandKitId);
       if (newImageUrl) {
+        // Every AI edit of a saved pin becomes its own revision
+        if (editingPin.savedId) {
+          const res = await updateSavedPin(editingPin.savedId, {
+            asset_id: await uploadImage(newImageUrl),
+            change_type: 'image_edit',
+            note: imageEditPrompt
+          });
+          if (!res.ok) throw new Error("Failed to save edited image");
+          fetchHistory();
+        }
         setEditingPin({ ...editingPin, imageUrl: newImageUrl });
         setImageEditPrompt('');
       } else {
@@ -400,19 +1226,92 @@ export default function App() {
     }
   };
 
+  // Sends a generated image's bytes to the asset store and returns its asset id
+  const uploadImage = async (imageUrl: string | null) => {
+    if (!imageUrl) return null;
+    const storedId = assetIdFromUrl(imageUrl);
+    if (storedId) return storedId;
+    const blob = await (await fetch(imageUrl)).blob();
+    const res = await fetch('/api/assets', {
+      method: 'POST',
+      headers: { 'Content-Type': blob.type || 'image/png' },
+      body: blob
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Image upload failed");
+    return data.id as string;
+  };
+
+  const savePin = async (pin: GeneratedPin, status: string, assetId?: string) => fetch('/api/pins', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      source_url: url || '',
+      title: pin.title,
+      description: pin.description,
+      asset_id: assetId ?? await uploadImage(pin.imageUrl),
+      link: pin.link,
+      board_id: pin.boardId,
+      board_section_id: pin.boardSectionId,
+      category: pinCategory,
+      status
+    })
+  });
+
+  const handleDeletePin = async (pin: any) => {
+    if (!confirm(`Delete "${pin.title}"? This also removes its revision history.`)) return;
+    try {
+      const res = await fetch(`/api/pins/${pin.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to delete pin");
+      }
+      fetchHistory();
+    } catch (e) {
+      alert("Failed to delete pin");
+    }
+  };
+
+  const handleDuplicatePin = async (pin: any) => {
+    try {
+      const res = await fetch(`/api/pins/${pin.id}/duplicate`, { method: 'POST' });
+      if (!res.ok) throw new Error();
+      fetchHistory();
+    } catch (e) {
+      alert("Failed to duplicate pin");
+    }
+  };
+
+  const openRevisions = async (pin: any) => {
+    try {
+      const res = await fetch(`/api/pins/${pin.id}/revisions`);
+      if (!res.ok) throw new Error();
+      setRevisions(await res.json());
+      setRevisionsPin(pin);
+    } catch (e) {
+      alert("Failed to load revisions");
+    }
+  };
+
+  const handleRestoreRevision = async (revision: any) => {
+    if (!revisionsPin) return;
+    try {
+      const res = await fetch(`/api/pins/${revisionsPin.id}/revisions/${revision.revision}/restore`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to restore revision");
+        return;
+      }
+      fetchHistory();
+      openRevisions(data);
+    } catch (e) {
+      alert("Failed to restore revision");
+    }
+  };
+
   const handleSaveToHistory = async (pin: GeneratedPin) => {
     try {
-      const res = await fetch('/api/pins', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          source_url: url || '',
-          title: pin.title,
-          description: pin.description,
-          image_url: pin.imageUrl,
-          status: 'draft'
-        })
-      });
+      const res = await savePin(pin, 'draft');
       if (res.ok) {
         alert("Pin saved to history!");
         fetchHistory();
@@ -663,7 +1562,22 @@ export default function App() {
   const renderGenerator = () => (
     <div className="space-y-6 pb-24">
       <Header title="Create" subtitle="Generate viral pins from any link" />
+
+      <div className="px-6">
+        <div className="flex bg-ios-light-gray rounded-xl p-1">
+          {(['single', 'batch'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setCreateMode(mode)}
+              className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${createMode === mode ? 'bg-white text-ios-blue shadow-sm' : 'text-ios-gray'}`}
+            >
+              {mode === 'single' ? 'Single Link' : 'Batch'}
+            </button>
+          ))}
+        </div>
+      </div>
       
+      {createMode === 'batch' ? renderBatches() : (
       <div className="px-6">
         <AnimatePresence mode="wait">
           {step === 1 && (
@@ -675,26 +1589,59 @@ export default function App() {
               className="space-y-4"
             >
               <div className="ios-card p-6 space-y-4">
-                <div className="flex items-center gap-3 text-ios-blue">
-                  <LinkIcon size={24} />
-                  <h3 className="font-bold">Paste Link</h3>
+                <div className="flex bg-ios-light-gray rounded-xl p-1">
+                  {(['link', 'upload'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSourceMode(mode)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${sourceMode === mode ? 'bg-white text-ios-blue shadow-sm' : 'text-ios-gray'}`}
+                    >
+                      {mode === 'link' ? 'Link' : 'Upload'}
+                    </button>
+                  ))}
                 </div>
-                <p className="text-sm text-ios-gray">Enter a YouTube, TikTok, or blog URL to get started.</p>
-                <input 
-                  type="url" 
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder="https://..." 
-                  className="ios-input w-full"
-                />
-                <button 
-                  onClick={handleExtract}
-                  disabled={loading || !url}
-                  className="ios-button-primary w-full disabled:opacity-50"
-                >
-                  {loading ? 'Extracting...' : 'Next'}
-                  {!loading && <ChevronRight size={20} />}
-                </button>
+                {sourceMode === 'link' ? (
+                  <>
+                    <div className="flex items-center gap-3 text-ios-blue">
+                      <LinkIcon size={24} />
+                      <h3 className="font-bold">Paste Link</h3>
+                    </div>
+                    <p className="text-sm text-ios-gray">Enter a YouTube, TikTok, or blog URL to get started.</p>
+                    <input 
+                      type="url" 
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder="https://..." 
+                      className="ios-input w-full"
+                    />
+                    <button 
+                      onClick={() => handleExtract()}
+                      disabled={loading || !url}
+                      className="ios-button-primary w-full disabled:opacity-50"
+                    >
+                      {loading ? 'Extracting...' : 'Next'}
+                      {!loading && <ChevronRight size={20} />}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-3 text-ios-blue">
+                      <Upload size={24} />
+                      <h3 className="font-bold">Upload Files</h3>
+                    </div>
+                    <p className="text-sm text-ios-gray">Up to 10 product photos, or one PDF such as a lookbook, ebook or printable (20MB each).</p>
+                    <label className={`ios-button-primary w-full cursor-pointer ${loading ? 'opacity-50 pointer-events-none' : ''}`}>
+                      {loading ? 'Analysing...' : 'Choose Photos or PDF'}
+                      <input
+                        type="file"
+                        multiple
+                        accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+                        onChange={handleUploadSource}
+                        className="hidden"
+                      />
+                    </label>
+                  </>
+                )}
               </div>
             </motion.div>
           )}
@@ -713,13 +1660,51 @@ export default function App() {
                   <h3 className="font-bold">{manualEntry ? 'Manual Entry' : 'Review Content'}</h3>
                 </div>
 
+                {!manualEntry && metadata.from_cache && metadata.cached_at && (
+                  <div className="flex justify-between items-center text-[10px] text-ios-gray">
+                    <span>Fetched {parseDbDate(metadata.cached_at).toLocaleString()}</span>
+                    <button onClick={() => handleExtract(true)} disabled={loading} className="text-ios-blue font-semibold disabled:opacity-50">
+                      Refresh from page
+                    </button>
+                  </div>
+                )}
+
                 {errorDetails && (
                   <div className="p-3 bg-ios-orange/10 border border-ios-orange/20 rounded-xl text-xs text-ios-orange font-medium">
                     {errorDetails} We couldn't fetch the details automatically.
                   </div>
                 )}
 
-                {!manualEntry && metadata.image && (
+                {metadata.images?.length ? (
+                  <div>
+                    <label className="text-xs font-bold text-ios-gray uppercase">Photos</label>
+                    <div className="grid grid-cols-3 gap-2 mt-1">
+                      {metadata.images.map((photo) => (
+                        <button
+                          key={photo}
+                          onClick={() => togglePhoto(photo)}
+                          className={`relative aspect-[2/3] rounded-xl overflow-hidden border-2 ${selectedPhotos.includes(photo) ? 'border-ios-blue' : 'border-transparent'}`}
+                        >
+                          <img src={photo} alt="Candidate" className="w-full h-full object-cover" referrerPolicy="no-referrer" />
+                          {selectedPhotos.includes(photo) && (
+                            <CheckCircle2 size={20} className="absolute top-1 right-1 text-white bg-ios-blue rounded-full" />
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-ios-gray mt-1">
+                      {selectedPhotos.length > 0
+                        ? `${selectedPhotos.length} photo${selectedPhotos.length === 1 ? '' : 's'} will be used as pin images.`
+                        : 'Tap photos to use them as pin images, or leave none selected to generate new ones.'}
+                    </p>
+                    {metadata.file_names && selectedPhotos.length > 0 && (
+                      <label className="flex items-center gap-2 text-xs mt-2">
+                        <input type="checkbox" checked={restylePhotos} onChange={(e) => setRestylePhotos(e.target.checked)} />
+                        Restyle photos into pin backgrounds with AI
+                      </label>
+                    )}
+                  </div>
+                ) : !manualEntry && metadata.image && (
                   <img src={metadata.image} alt="Preview" className="w-full h-40 object-cover rounded-xl" referrerPolicy="no-referrer" />
                 )}
 
@@ -752,6 +1737,191 @@ export default function App() {
                   )}
                 </div>
 
+                {!manualEntry && metadata.structured && (
+                  <div>
+                    <label className="text-xs font-bold text-ios-gray uppercase">Page Details</label>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {[
+                        metadata.structured.type === 'howto' ? 'How-to' : metadata.structured.type,
+                        metadata.structured.total_time || metadata.structured.cook_time,
+                        metadata.structured.servings && `Serves ${metadata.structured.servings}`,
+                        metadata.structured.ingredients?.length && `${metadata.structured.ingredients.length} ingredients`,
+                        metadata.structured.steps?.length && `${metadata.structured.steps.length} steps`,
+                        metadata.structured.price,
+                        metadata.structured.availability,
+                        metadata.structured.brand,
+                        metadata.structured.author && `By ${metadata.structured.author}`,
+                      ].filter(Boolean).map((detail, i) => (
+                        <span key={i} className="text-[10px] bg-ios-blue/10 text-ios-blue px-2 py-0.5 rounded-full font-bold capitalize">{detail}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {!manualEntry && !!metadata.chapters?.length && (
+                  <div>
+                    <div className="flex justify-between items-center">
+                      <label className="text-xs font-bold text-ios-gray uppercase">
+                        {metadata.chapters[0].source === 'description' ? 'Video Chapters' : 'Video Segments'}
+                      </label>
+                      <button
+                        onClick={() => setSelectedChapters(selectedChapters.length === metadata.chapters!.length ? [] : metadata.chapters!.map(c => c.start_seconds))}
+                        className="text-ios-blue text-xs font-semibold"
+                      >
+                        {selectedChapters.length === metadata.chapters.length ? 'Clear' : 'Select all'}
+                      </button>
+                    </div>
+                    <div className="space-y-1 mt-1 max-h-60 overflow-y-auto">
+                      {metadata.chapters.map((chapter) => (
+                        <button
+                          key={chapter.start_seconds}
+                          onClick={() => toggleChapter(chapter.start_seconds)}
+                          className={`w-full flex items-center gap-2 p-2 rounded-lg text-left text-sm ${selectedChapters.includes(chapter.start_seconds) ? 'bg-ios-blue/10' : 'bg-ios-light-gray'}`}
+                        >
+                          <CheckCircle2 size={16} className={selectedChapters.includes(chapter.start_seconds) ? 'text-ios-blue' : 'text-ios-gray/30'} />
+                          <span className="text-xs font-mono text-ios-gray">{formatTimestamp(chapter.start_seconds)}</span>
+                          <span className="truncate flex-1">{chapter.title}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-ios-gray mt-1">
+                      {selectedChapters.length > 0
+                        ? `One pin per selected ${metadata.chapters[0].source === 'description' ? 'chapter' : 'segment'}, each linking to its timestamp.`
+                        : 'Select chapters to turn each into its own pin, or leave none selected for regular variations.'}
+                    </p>
+                  </div>
+                )}
+
+                {brandKits.length > 0 && (
+                  <div className="border-t border-ios-light-gray pt-3 flex items-center justify-between gap-3">
+                    <label className="text-xs font-bold text-ios-gray uppercase">Brand Kit</label>
+                    <select
+                      value={brandKitId ?? ''}
+                      onChange={(e) => setBrandKitId(e.target.value ? Number(e.target.value) : null)}
+                      className="ios-input text-sm"
+                    >
+                      <option value="">No brand kit</option>
+                      {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}{kit.is_default ? ' (default)' : ''}</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {generationOptions && (
+                  <div className="border-t border-ios-light-gray pt-3">
+                    <button onClick={() => setShowCopyOptions(!showCopyOptions)} className="w-full flex justify-between items-center">
+                      <label className="text-xs font-bold text-ios-gray uppercase">Copy Options</label>
+                      <span className="text-[10px] text-ios-gray">
+                        {selectedChapters.length > 0 ? 'One per chapter' : `${generationOptions.variations} variation${generationOptions.variations === 1 ? '' : 's'}`}
+                        {' · '}{generationPresets.tones.find(t => t.id === generationOptions.tone)?.label || generationOptions.tone}
+                        {' · '}{generationOptions.language}
+                        <ChevronRight size={12} className={`inline ml-1 transition-transform ${showCopyOptions ? 'rotate-90' : ''}`} />
+                      </span>
+                    </button>
+                    {showCopyOptions && (
+                      <div className="space-y-3 mt-3">
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Variations</label>
+                            <input
+                              type="number"
+                              min={1}
+                              max={10}
+                              value={generationOptions.variations}
+                              disabled={selectedChapters.length > 0}
+                              onChange={(e) => updateGenerationOptions({ variations: Number(e.target.value) })}
+                              className="ios-input w-full mt-1 disabled:opacity-50"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Tone</label>
+                            <select value={generationOptions.tone} onChange={(e) => updateGenerationOptions({ tone: e.target.value })} className="ios-input w-full mt-1">
+                              {generationPresets.tones.map(tone => <option key={tone.id} value={tone.id}>{tone.label}</option>)}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Audience</label>
+                            <input
+                              type="text"
+                              value={generationOptions.audience}
+                              onChange={(e) => updateGenerationOptions({ audience: e.target.value })}
+                              placeholder="e.g. busy parents"
+                              className="ios-input w-full mt-1"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Language</label>
+                            <input
+                              type="text"
+                              value={generationOptions.language}
+                              onChange={(e) => updateGenerationOptions({ language: e.target.value })}
+                              className="ios-input w-full mt-1"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Max title length</label>
+                            <input
+                              type="number"
+                              min={30}
+                              max={100}
+                              value={generationOptions.title_max_chars}
+                              onChange={(e) => updateGenerationOptions({ title_max_chars: Number(e.target.value) })}
+                              className="ios-input w-full mt-1"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Description length</label>
+                            <div className="flex items-center gap-1 mt-1">
+                              <input
+                                type="number"
+                                min={0}
+                                max={500}
+                                value={generationOptions.description_min_chars}
+                                onChange={(e) => updateGenerationOptions({ description_min_chars: Number(e.target.value) })}
+                                className="ios-input w-full"
+                              />
+                              <span className="text-ios-gray text-xs">–</span>
+                              <input
+                                type="number"
+                                min={50}
+                                max={500}
+                                value={generationOptions.description_max_chars}
+                                onChange={(e) => updateGenerationOptions({ description_max_chars: Number(e.target.value) })}
+                                className="ios-input w-full"
+                              />
+                            </div>
+                          </div>
+                          <div>
+                            <label className="text-[10px] font-bold text-ios-gray uppercase">Call to action</label>
+                            <select value={generationOptions.cta_style} onChange={(e) => updateGenerationOptions({ cta_style: e.target.value })} className="ios-input w-full mt-1">
+                              {generationPresets.cta_styles.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+                            </select>
+                          </div>
+                          <label className="flex items-center gap-2 text-xs self-end pb-2">
+                            <input type="checkbox" checked={generationOptions.emoji} onChange={(e) => updateGenerationOptions({ emoji: e.target.checked })} />
+                            Allow emoji
+                          </label>
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-bold text-ios-gray uppercase">Words to avoid</label>
+                          <input
+                            type="text"
+                            value={generationOptions.avoid_words.join(',')}
+                            onChange={(e) => updateGenerationOptions({ avoid_words: e.target.value.split(',') })}
+                            placeholder="Comma-separated, e.g. guaranteed, get rich"
+                            className="ios-input w-full mt-1"
+                          />
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <p className="text-[10px] text-ios-gray">These apply to this generation; save them to use them every time.</p>
+                          <button onClick={handleSaveGenerationDefaults} disabled={isSavingDefaults} className="text-ios-blue text-xs font-semibold disabled:opacity-50 shrink-0 ml-2">
+                            {isSavingDefaults ? 'Saving...' : 'Save as my defaults'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex gap-3 pt-4">
                   <button 
                     onClick={() => {
@@ -786,15 +1956,54 @@ export default function App() {
                 <h3 className="font-bold text-lg">Generated Variations</h3>
                 <div className="flex gap-3">
                   <button 
-                    onClick={handleDownloadAll}
+                    onClick={() => openScheduler(generatedPins.filter(p => p.imageUrl))}
                     className="text-ios-blue text-sm font-semibold flex items-center gap-1"
                   >
-                    <LayoutGrid size={16} />
-                    Download All
+                    <CalendarClock size={16} />
+                    Schedule All
+                  </button>
+                  <button 
+                    onClick={handleExportGenerated}
+                    disabled={isExporting}
+                    className="text-ios-blue text-sm font-semibold flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Download size={16} />
+                    {isExporting ? 'Exporting...' : 'Export CSV'}
                   </button>
+                  {brandKitId && (
+                    <button
+                      onClick={handleCheckCompliance}
+                      disabled={isCheckingCompliance}
+                      className="text-ios-blue text-sm font-semibold flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <ShieldCheck size={16} />
+                      {isCheckingCompliance ? 'Checking...' : 'Check Brand'}
+                    </button>
+                  )}
                   <button onClick={() => setStep(1)} className="text-ios-blue text-sm font-semibold">Start Over</button>
                 </div>
               </div>
+
+              {complianceReport && (
+                <div className={`ios-card p-4 space-y-2 ${complianceReport.compliant ? 'bg-ios-green/5' : 'bg-ios-orange/5'}`}>
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm font-semibold">
+                      {complianceReport.compliant ? 'On brand' : `${complianceReport.issues.length} brand issue${complianceReport.issues.length === 1 ? '' : 's'}`}
+                    </p>
+                    <button onClick={() => setComplianceReport(null)} className="text-ios-gray text-xs font-semibold">Dismiss</button>
+                  </div>
+                  {complianceReport.issues.map((issue, i) => (
+                    <p key={i} className="text-xs">
+                      <span className="font-bold">Pin {issue.pin + 1}</span>
+                      <span className="text-ios-gray"> · {issue.kind === 'banned_phrase' ? 'Banned phrase' : issue.kind === 'voice' ? 'Voice' : 'Visual'} · </span>
+                      {issue.message}
+                    </p>
+                  ))}
+                  {!complianceReport.reviewed && (
+                    <p className="text-[10px] text-ios-gray">Only banned phrases were checked; the voice and visual review is unavailable right now.</p>
+                  )}
+                </div>
+              )}
               
               <div className="space-y-6">
                 {generatedPins.map((pin, i) => (
@@ -826,6 +2035,25 @@ export default function App() {
                       <div className="p-6 flex-1 space-y-4">
                         <h4 className="font-bold text-xl">{pin.title}</h4>
                         <p className="text-sm text-ios-gray">{pin.description}</p>
+                        <div className="relative">
+                          <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 text-ios-gray" size={14} />
+                          <input
+                            type="url"
+                            value={pin.link || ''}
+                            onChange={(e) => setGeneratedPins(prev => prev.map(p => p.id === pin.id ? { ...p, link: e.target.value } : p))}
+                            placeholder="Destination link"
+                            className="ios-input w-full pl-9 text-xs"
+                          />
+                        </div>
+                        {isConnected && (
+                          <BoardSelect
+                            boards={boards}
+                            boardId={pin.boardId}
+                            sectionId={pin.boardSectionId}
+                            onChange={(boardId, sectionId) => setGeneratedPins(prev => prev.map(p => p.id === pin.id ? { ...p, boardId, boardSectionId: sectionId } : p))}
+                            className="w-full"
+                          />
+                        )}
                         <div className="flex gap-2 pt-4">
                           <button 
                             onClick={() => setEditingPin(pin)}
@@ -841,6 +2069,14 @@ export default function App() {
                           >
                             Save
                           </button>
+                          <button 
+                            onClick={() => openScheduler([pin])}
+                            disabled={!pin.imageUrl}
+                            className="ios-button-secondary px-3 text-sm"
+                            title="Schedule"
+                          >
+                            <CalendarClock size={16} />
+                          </button>
                           <div className="flex-1 flex gap-2">
                             <button 
                               onClick={() => handleDownload(pin)}
@@ -850,7 +2086,7 @@ export default function App() {
                               Download
                             </button>
                             <button 
-                              onClick={() => handlePublish(pin, 'published')}
+                              onClick={() => handlePublish(pin)}
                               disabled={publishingId === pin.id}
                               className="ios-button-primary flex-1 text-sm"
                             >
@@ -869,6 +2105,160 @@ export default function App() {
           )}
         </AnimatePresence>
       </div>
+      )}
+    </div>
+  );
+
+  const renderBatches = () => (
+    <div className="px-6 space-y-4">
+      <div className="ios-card p-6 space-y-4">
+        <div className="flex items-center gap-3 text-ios-blue">
+          <Layers size={24} />
+          <h3 className="font-bold">Batch Import</h3>
+        </div>
+        <p className="text-sm text-ios-gray">Paste one URL per line or upload a CSV with a "url" column. Pins are saved to History as drafts.</p>
+        <textarea
+          value={batchInput}
+          onChange={(e) => setBatchInput(e.target.value)}
+          placeholder={"https://myblog.com/post-1\nhttps://myblog.com/post-2"}
+          className="ios-input w-full h-32 resize-none text-sm font-mono"
+        />
+        <div className="flex gap-3 items-center">
+          <label className="ios-button-secondary flex-1 text-sm cursor-pointer">
+            <Upload size={16} />
+            Upload CSV
+            <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleBatchFile} className="hidden" />
+          </label>
+          <label className="text-xs text-ios-gray font-bold uppercase flex items-center gap-2">
+            Pins / URL
+            <select
+              value={batchPinsPerUrl}
+              onChange={(e) => setBatchPinsPerUrl(Number(e.target.value))}
+              className="ios-input py-2 text-sm"
+            >
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+        <button
+          onClick={handleStartBatch}
+          disabled={isStartingBatch || !batchInput.trim()}
+          className="ios-button-primary w-full disabled:opacity-50"
+        >
+          {isStartingBatch ? 'Starting...' : 'Start Batch'}
+        </button>
+      </div>
+
+      <div className="ios-card p-6 space-y-4">
+        <div className="flex items-center gap-3 text-ios-blue">
+          <Rss size={24} />
+          <h3 className="font-bold">Source Feeds</h3>
+        </div>
+        <p className="text-sm text-ios-gray">Watch a blog's RSS/Atom feed or sitemap.xml. New posts are turned into draft pins automatically.</p>
+        <input
+          type="url"
+          value={newFeedUrl}
+          onChange={(e) => setNewFeedUrl(e.target.value)}
+          placeholder="https://myblog.com/feed.xml"
+          className="ios-input w-full text-sm"
+        />
+        <div className="flex gap-3 items-center">
+          <label className="text-xs text-ios-gray font-bold uppercase flex items-center gap-2 flex-1">
+            Draft existing posts
+            <select
+              value={newFeedBackfill}
+              onChange={(e) => setNewFeedBackfill(Number(e.target.value))}
+              className="ios-input py-2 text-sm"
+            >
+              {[0, 1, 3, 5, 10, 20].map(n => <option key={n} value={n}>{n === 0 ? 'None' : `Latest ${n}`}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={handleAddFeed}
+            disabled={isAddingFeed || !newFeedUrl.trim()}
+            className="ios-button-primary text-sm disabled:opacity-50"
+          >
+            {isAddingFeed ? 'Checking...' : 'Add Feed'}
+          </button>
+        </div>
+
+        {feeds.map((feed) => (
+          <div key={feed.id} className="border-t border-black/5 pt-3 space-y-1">
+            <div className="flex justify-between items-center gap-2">
+              <span className={`font-semibold text-sm truncate ${feed.enabled ? '' : 'text-ios-gray'}`}>{feed.title || feed.url}</span>
+              {feed.kind && (
+                <span className="text-[10px] px-1.5 py-0.5 rounded font-bold uppercase bg-ios-blue/10 text-ios-blue flex-shrink-0">
+                  {feed.kind.replace('_', ' ')}
+                </span>
+              )}
+            </div>
+            <p className="text-[10px] text-ios-gray">
+              {feed.entry_count} posts seen · {feed.queued_count} drafted
+              {feed.last_checked_at && ` · checked ${parseDbDate(feed.last_checked_at).toLocaleString()}`}
+              {!feed.enabled && ' · paused'}
+            </p>
+            {feed.last_error && <p className="text-[10px] text-ios-red">{feed.last_error}</p>}
+            <div className="flex gap-3">
+              <button onClick={() => handleFeedAction(feed, 'check')} className="text-ios-blue text-xs font-semibold">Check Now</button>
+              <button onClick={() => handleFeedAction(feed, 'toggle')} className="text-ios-blue text-xs font-semibold">{feed.enabled ? 'Pause' : 'Resume'}</button>
+              <button onClick={() => handleFeedAction(feed, 'delete')} className="text-ios-red text-xs font-semibold">Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {batches.map((batch) => (
+        <div key={batch.id} className="ios-card p-4 space-y-3">
+          <button onClick={() => toggleBatch(batch)} className="w-full text-left space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="font-semibold text-sm truncate">Batch #{batch.id}{batch.feed_title && ` · ${batch.feed_title}`}</span>
+              <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold uppercase ${
+                batch.status === 'completed' ? 'bg-ios-green/10 text-ios-green'
+                  : batch.status === 'cancelled' ? 'bg-ios-gray/10 text-ios-gray'
+                  : 'bg-ios-blue/10 text-ios-blue'
+              }`}>
+                {batch.status}
+              </span>
+            </div>
+            <div className="h-2 bg-ios-light-gray rounded-full overflow-hidden flex">
+              <div className="h-full bg-ios-green" style={{ width: `${(batch.done / Math.max(1, batch.total)) * 100}%` }} />
+              <div className="h-full bg-ios-red" style={{ width: `${(batch.failed / Math.max(1, batch.total)) * 100}%` }} />
+            </div>
+            <p className="text-[10px] text-ios-gray">
+              {batch.done} done · {batch.failed} failed · {batch.pending + batch.running} remaining of {batch.total} · {parseDbDate(batch.created_at).toLocaleString()}
+            </p>
+          </button>
+
+          <div className="flex gap-3">
+            {(batch.status === 'queued' || batch.status === 'running') && (
+              <button onClick={() => handleBatchAction(batch, 'cancel')} className="text-ios-red text-xs font-semibold">Cancel</button>
+            )}
+            {batch.failed > 0 && (
+              <button onClick={() => handleBatchAction(batch, 'retry')} className="text-ios-blue text-xs font-semibold">Retry Failed</button>
+            )}
+          </div>
+
+          {expandedBatch?.id === batch.id && (
+            <div className="space-y-2 border-t border-black/5 pt-3 max-h-80 overflow-y-auto">
+              {expandedBatch.items?.map((item: any) => (
+                <div key={item.id} className="text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                      item.status === 'done' ? 'bg-ios-green'
+                        : item.status === 'failed' ? 'bg-ios-red'
+                        : item.status === 'running' ? 'bg-ios-blue animate-pulse'
+                        : 'bg-ios-gray/40'
+                    }`} />
+                    <span className="truncate flex-1">{item.url}</span>
+                    {item.status === 'done' && <span className="text-ios-gray">{item.pin_ids.length} pins</span>}
+                  </div>
+                  {item.error && <p className="text-[10px] text-ios-red pl-4">{item.error}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
     </div>
   );
 
@@ -927,15 +2317,87 @@ export default function App() {
     <div className="space-y-6 pb-24">
       <Header title="History" subtitle="Your generated pins and drafts" />
       <div className="px-6 space-y-4">
-        {history.length === 0 && (
+        {queue.length > 0 && (
+          <div className="ios-card p-4 space-y-3">
+            <h3 className="font-bold flex items-center gap-2">
+              <CalendarClock size={18} className="text-ios-blue" />
+              Upcoming
+            </h3>
+            {queue.map((pin) => (
+              <div key={pin.id} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold truncate">{pin.title}</p>
+                  <p className={`text-[10px] ${pin.status === 'failed' ? 'text-ios-red' : 'text-ios-gray'}`}>
+                    {pin.status === 'failed'
+                      ? `Failed after ${pin.attempt_count} attempt${pin.attempt_count === 1 ? '' : 's'}: ${pin.last_error}`
+                      : pin.scheduled_at && parseDbDate(pin.scheduled_at).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                </div>
+                {pin.status !== 'publishing' && (
+                  <button 
+                    onClick={() => handleUnschedule(pin)}
+                    className="text-ios-red text-xs font-semibold"
+                  >
+                    {pin.status === 'failed' ? 'Dismiss' : 'Cancel'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {history.length === 0 ? (
           <div className="text-center py-12 text-ios-gray">
             <History size={48} className="mx-auto mb-4 opacity-20" />
             <p>No pins generated yet.</p>
           </div>
+        ) : (
+          <div className="ios-card p-4 space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Search pins..."
+                className="ios-input flex-1 py-2 text-sm"
+                value={historyQuery}
+                onChange={(e) => setHistoryQuery(e.target.value)}
+              />
+              <select
+                className="ios-input py-2 text-sm"
+                value={historyStatus}
+                onChange={(e) => setHistoryStatus(e.target.value)}
+              >
+                {['all', 'draft', 'scheduled', 'published', 'failed'].map(status => (
+                  <option key={status} value={status}>{status === 'all' ? 'All statuses' : status}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setSelectedPinIds(selectedPinIds.length > 0 ? [] : filteredHistory.map(pin => pin.id))}
+                className="text-ios-blue text-xs font-semibold"
+              >
+                {selectedPinIds.length > 0 ? `Clear selection (${selectedPinIds.length})` : 'Select all'}
+              </button>
+              <button
+                onClick={handleExportHistory}
+                disabled={isExporting || filteredHistory.length === 0}
+                className="text-ios-blue text-xs font-semibold flex items-center gap-1 disabled:opacity-50"
+              >
+                <Download size={14} />
+                {isExporting ? 'Exporting...' : `Export CSV (${selectedPinIds.filter(id => filteredHistory.some(pin => pin.id === id)).length || filteredHistory.length})`}
+              </button>
+            </div>
+          </div>
         )}
-        {history.map((pin) => (
+        {filteredHistory.map((pin) => (
           <div key={pin.id} className="ios-card p-4 flex flex-col gap-4">
             <div className="flex gap-4 items-center">
+              <input
+                type="checkbox"
+                className="w-4 h-4 accent-ios-blue flex-shrink-0"
+                checked={selectedPinIds.includes(pin.id)}
+                onChange={() => togglePinSelection(pin.id)}
+              />
               <div className="w-16 h-16 bg-ios-light-gray rounded-lg overflow-hidden flex-shrink-0">
                 {pin.image_url ? (
                   <img src={pin.image_url} alt="History" className="w-full h-full object-cover" referrerPolicy="no-referrer" />
@@ -951,19 +2413,54 @@ export default function App() {
                   <Clock size={12} />
                   <span>{new Date(pin.created_at).toLocaleDateString()}</span>
                   <span className={`px-1.5 py-0.5 rounded font-bold uppercase ${
-                    pin.status === 'published' ? 'bg-ios-green/10 text-ios-green' : 'bg-ios-orange/10 text-ios-orange'
+                    pin.status === 'published' ? 'bg-ios-green/10 text-ios-green'
+                      : pin.status === 'scheduled' ? 'bg-ios-blue/10 text-ios-blue'
+                      : pin.status === 'failed' ? 'bg-ios-red/10 text-ios-red'
+                      : 'bg-ios-orange/10 text-ios-orange'
                   }`}>
                     {pin.status}
                   </span>
                 </div>
               </div>
-              <ChevronRight className="text-ios-gray" size={20} />
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={() => openHistoryEditor(pin)} disabled={pin.status === 'publishing'} className="ios-button-secondary flex-1 py-2 text-xs" title="Edit">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => handleDuplicatePin(pin)} className="ios-button-secondary flex-1 py-2 text-xs" title="Duplicate">
+                <Copy size={14} />
+              </button>
+              <button onClick={() => openRevisions(pin)} className="ios-button-secondary flex-1 py-2 text-xs" title="Revisions">
+                <RotateCcw size={14} />
+              </button>
+              <button onClick={() => handleDeletePin(pin)} disabled={pin.status === 'publishing'} className="ios-button-secondary flex-1 py-2 text-xs text-ios-red" title="Delete">
+                <Trash2 size={14} />
+              </button>
             </div>
             
-            {pin.status !== 'published' && (
+            {pin.status !== 'published' && pin.status !== 'publishing' && isConnected && (
+              <BoardSelect
+                boards={boards}
+                boardId={pin.board_id}
+                sectionId={pin.board_section_id}
+                onChange={(boardId, sectionId) => handleAssignBoard(pin, boardId, sectionId)}
+                className="w-full py-2"
+              />
+            )}
+
+            {pin.status !== 'published' && pin.status !== 'publishing' && (
               <div className="flex gap-2">
+                {pin.status !== 'scheduled' && (
+                  <button 
+                    onClick={() => openScheduler([pin])}
+                    className="ios-button-secondary flex-1 py-2 text-xs"
+                  >
+                    Schedule
+                  </button>
+                )}
                 <button 
-                  onClick={() => handlePublish(pin, 'published')}
+                  onClick={() => handlePublish(pin)}
                   disabled={publishingId === pin.id}
                   className="ios-button-primary flex-1 py-2 text-xs"
                 >
@@ -1020,6 +2517,244 @@ export default function App() {
           </div>
         </div>
 
+        {isConnected && (
+          <div className="ios-card p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold">Default Boards</h3>
+              <button onClick={() => fetchBoards(true)} className="text-ios-blue text-xs font-semibold">Refresh Boards</button>
+            </div>
+            <p className="text-xs text-ios-gray">New pins from a matching site or trend category go to this board unless you pick another.</p>
+
+            {boardDefaults.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-3 text-sm">
+                <span className="text-[10px] bg-ios-gray/10 text-ios-gray px-2 py-0.5 rounded-full font-bold uppercase">{rule.match_type}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{rule.match_value}</p>
+                  <p className="text-[10px] text-ios-gray truncate">{boardLabel(rule.board_id, rule.board_section_id)}</p>
+                </div>
+                <button onClick={() => handleDeleteBoardDefault(rule)} className="text-ios-red text-xs font-semibold">Remove</button>
+              </div>
+            ))}
+
+            <div className="space-y-2 pt-2">
+              <div className="flex gap-2">
+                <select
+                  value={newBoardDefault.match_type}
+                  onChange={(e) => setNewBoardDefault({ ...newBoardDefault, match_type: e.target.value as BoardDefault['match_type'] })}
+                  className="ios-input text-sm"
+                >
+                  <option value="domain">Domain</option>
+                  <option value="category">Category</option>
+                </select>
+                <input
+                  type="text"
+                  value={newBoardDefault.match_value}
+                  onChange={(e) => setNewBoardDefault({ ...newBoardDefault, match_value: e.target.value })}
+                  placeholder={newBoardDefault.match_type === 'domain' ? 'myblog.com' : 'Food'}
+                  className="ios-input flex-1 min-w-0 text-sm"
+                />
+              </div>
+              <BoardSelect
+                boards={boards}
+                boardId={newBoardDefault.board_id}
+                sectionId={newBoardDefault.board_section_id}
+                onChange={(boardId, sectionId) => setNewBoardDefault({ ...newBoardDefault, board_id: boardId || '', board_section_id: sectionId })}
+                className="w-full"
+              />
+              <button
+                onClick={handleSaveBoardDefault}
+                disabled={!newBoardDefault.match_value || !newBoardDefault.board_id}
+                className="ios-button-secondary w-full text-sm disabled:opacity-50"
+              >
+                Add Default
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="ios-card p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold">Brand Kits</h3>
+            {!brandKitDraft && (
+              <button onClick={() => setBrandKitDraft(EMPTY_BRAND_KIT)} className="text-ios-blue text-xs font-semibold">New Kit</button>
+            )}
+          </div>
+          <p className="text-xs text-ios-gray">Your logo, colours, fonts and voice, applied to every pin's copy and images. The default kit is used unless you pick another when creating pins.</p>
+
+          {!brandKitDraft && brandKits.map((kit) => (
+            <div key={kit.id} className="flex items-center gap-3 text-sm">
+              {kit.logo_url
+                ? <img src={kit.logo_url} alt="" className="w-8 h-8 rounded-lg object-contain bg-ios-light-gray" />
+                : <div className="w-8 h-8 rounded-lg bg-ios-light-gray" />}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {kit.name}
+                  {kit.is_default && <span className="ml-2 text-[10px] bg-ios-blue/10 text-ios-blue px-2 py-0.5 rounded-full font-bold uppercase">Default</span>}
+                </p>
+                <div className="flex gap-1 mt-1">
+                  {kit.palette.map(colour => <span key={colour} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: colour }} />)}
+                </div>
+              </div>
+              <button onClick={() => setBrandKitDraft(kit)} className="text-ios-blue text-xs font-semibold">Edit</button>
+              <button onClick={() => handleDeleteBrandKit(kit)} className="text-ios-red text-xs font-semibold">Remove</button>
+            </div>
+          ))}
+
+          {brandKitDraft && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={brandKitDraft.name}
+                onChange={(e) => setBrandKitDraft({ ...brandKitDraft, name: e.target.value })}
+                placeholder="Brand name"
+                className="ios-input w-full text-sm"
+              />
+              <div className="flex items-center gap-3">
+                {brandKitDraft.logo_url
+                  ? <img src={brandKitDraft.logo_url} alt="Logo" className="w-12 h-12 rounded-lg object-contain bg-ios-light-gray" />
+                  : <div className="w-12 h-12 rounded-lg bg-ios-light-gray flex items-center justify-center text-ios-gray"><ImageIcon size={20} /></div>}
+                <label className="text-ios-blue text-xs font-semibold cursor-pointer">
+                  {brandKitDraft.logo_asset_id ? 'Replace Logo' : 'Upload Logo'}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleUploadBrandLogo(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {brandKitDraft.logo_asset_id && (
+                  <button onClick={() => setBrandKitDraft({ ...brandKitDraft, logo_asset_id: null, logo_url: null })} className="text-ios-red text-xs font-semibold">Remove</button>
+                )}
+              </div>
+              <div>
+                <label className="text-[10px] font-bold text-ios-gray uppercase">Palette</label>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {brandKitDraft.palette.map((colour, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                      <input
+                        type="color"
+                        value={/^#[0-9a-f]{6}$/i.test(colour) ? colour : '#000000'}
+                        onChange={(e) => setBrandKitDraft({ ...brandKitDraft, palette: brandKitDraft.palette.map((c, j) => j === i ? e.target.value.toUpperCase() : c) })}
+                        className="w-8 h-8 rounded"
+                      />
+                      <input
+                        type="text"
+                        value={colour}
+                        onChange={(e) => setBrandKitDraft({ ...brandKitDraft, palette: brandKitDraft.palette.map((c, j) => j === i ? e.target.value : c) })}
+                        className="ios-input w-24 text-xs font-mono"
+                      />
+                      <button onClick={() => setBrandKitDraft({ ...brandKitDraft, palette: brandKitDraft.palette.filter((_, j) => j !== i) })} className="text-ios-gray">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  {brandKitDraft.palette.length < 8 && (
+                    <button onClick={() => setBrandKitDraft({ ...brandKitDraft, palette: [...brandKitDraft.palette, '#000000'] })} className="text-ios-blue text-xs font-semibold">Add Colour</button>
+                  )}
+                </div>
+                <p className="text-[10px] text-ios-gray mt-1">The first colour is the dominant one.</p>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={brandKitDraft.heading_font}
+                  onChange={(e) => setBrandKitDraft({ ...brandKitDraft, heading_font: e.target.value })}
+                  placeholder="Heading font"
+                  className="ios-input flex-1 min-w-0 text-sm"
+                />
+                <input
+                  type="text"
+                  value={brandKitDraft.body_font}
+                  onChange={(e) => setBrandKitDraft({ ...brandKitDraft, body_font: e.target.value })}
+                  placeholder="Body font"
+                  className="ios-input flex-1 min-w-0 text-sm"
+                />
+              </div>
+              <textarea
+                value={brandKitDraft.voice}
+                onChange={(e) => setBrandKitDraft({ ...brandKitDraft, voice: e.target.value })}
+                placeholder="Voice, e.g. warm and witty, speaks to home cooks as equals, never preachy"
+                rows={3}
+                className="ios-input w-full text-sm"
+              />
+              <input
+                type="text"
+                value={brandKitDraft.banned_phrases.join(',')}
+                onChange={(e) => setBrandKitDraft({ ...brandKitDraft, banned_phrases: e.target.value.split(',') })}
+                placeholder="Banned phrases, comma-separated"
+                className="ios-input w-full text-sm"
+              />
+              <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={brandKitDraft.is_default} onChange={(e) => setBrandKitDraft({ ...brandKitDraft, is_default: e.target.checked })} />
+                Use by default
+              </label>
+              <div className="flex gap-2">
+                <button onClick={() => setBrandKitDraft(null)} className="ios-button-secondary flex-1 text-sm">Cancel</button>
+                <button
+                  onClick={handleSaveBrandKit}
+                  disabled={isSavingBrandKit || !brandKitDraft.name.trim()}
+                  className="ios-button-primary flex-1 text-sm disabled:opacity-50"
+                >
+                  {isSavingBrandKit ? 'Saving...' : 'Save Kit'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="ios-card p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold">Link Tracking</h3>
+            <button onClick={() => saveLinkRule({ preset: 'utm' })} className="text-ios-blue text-xs font-semibold">Add UTM Tags</button>
+          </div>
+          <p className="text-xs text-ios-gray">Parameters added to new pins' destination links. Use {'{keyword}'} for the trend and {'{variant}'} for the variation number. Domain rules (e.g. affiliate tags) override rules for all links.</p>
+
+          {linkRules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-3 text-sm">
+              <span className="text-[10px] bg-ios-gray/10 text-ios-gray px-2 py-0.5 rounded-full font-bold uppercase">{rule.match_value === '*' ? 'All' : rule.match_value}</span>
+              <p className="flex-1 min-w-0 font-mono text-xs truncate">{rule.param}={rule.value}</p>
+              <button onClick={() => handleDeleteLinkRule(rule)} className="text-ios-red text-xs font-semibold">Remove</button>
+            </div>
+          ))}
+
+          <div className="space-y-2 pt-2">
+            <input
+              type="text"
+              value={newLinkRule.match_value}
+              onChange={(e) => setNewLinkRule({ ...newLinkRule, match_value: e.target.value })}
+              placeholder="Domain (empty for all links)"
+              className="ios-input w-full text-sm"
+            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newLinkRule.param}
+                onChange={(e) => setNewLinkRule({ ...newLinkRule, param: e.target.value })}
+                placeholder="tag"
+                className="ios-input flex-1 min-w-0 text-sm"
+              />
+              <input
+                type="text"
+                value={newLinkRule.value}
+                onChange={(e) => setNewLinkRule({ ...newLinkRule, value: e.target.value })}
+                placeholder="mystore-20"
+                className="ios-input flex-1 min-w-0 text-sm"
+              />
+            </div>
+            <button
+              onClick={handleSaveLinkRule}
+              disabled={!newLinkRule.param || !newLinkRule.value}
+              className="ios-button-secondary w-full text-sm disabled:opacity-50"
+            >
+              Add Rule
+            </button>
+          </div>
+        </div>
+
         <div className="ios-card p-6 space-y-4">
           <h3 className="font-bold">Subscription</h3>
           <div className="p-4 bg-ios-blue/5 border border-ios-blue/10 rounded-xl">
@@ -1167,6 +2902,16 @@ export default function App() {
                     className="ios-input w-full mt-1 h-32 resize-none"
                   />
                 </div>
+                <div>
+                  <label className="text-xs font-bold text-ios-gray uppercase">Destination Link</label>
+                  <input 
+                    type="url"
+                    value={editingPin.link || ''}
+                    onChange={(e) => setEditingPin({ ...editingPin, link: e.target.value })}
+                    placeholder="https://"
+                    className="ios-input w-full mt-1"
+                  />
+                </div>
               </div>
 
               <div className="flex gap-3">
@@ -1188,6 +2933,117 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Revisions Modal */}
+      <AnimatePresence>
+        {revisionsPin && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[110] bg-black/40 backdrop-blur-sm flex items-end justify-center p-6"
+          >
+            <motion.div 
+              initial={{ y: "100%" }}
+              animate={{ y: 0 }}
+              exit={{ y: "100%" }}
+              className="bg-white w-full max-w-sm rounded-3xl p-6 space-y-6 shadow-2xl"
+            >
+              <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold">Revisions</h3>
+                <button onClick={() => setRevisionsPin(null)} className="text-ios-gray">
+                  <ChevronRight size={24} className="rotate-90" />
+                </button>
+              </div>
+
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-2">
+                {revisions.map((revision, index) => (
+                  <div key={revision.id} className="flex gap-3 items-center">
+                    <div className="w-12 h-12 bg-ios-light-gray rounded-lg overflow-hidden flex-shrink-0">
+                      {revision.image_url && (
+                        <img src={revision.image_url} alt={`Revision ${revision.revision}`} className="w-full h-full object-cover" referrerPolicy="no-referrer" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold truncate">{revision.title}</p>
+                      <p className="text-[10px] text-ios-gray truncate">
+                        v{revision.revision} · {revision.change_type.replace('_', ' ')} · {parseDbDate(revision.created_at).toLocaleString()}
+                      </p>
+                      {revision.note && <p className="text-[10px] text-ios-gray truncate">{revision.note}</p>}
+                    </div>
+                    {index === 0 ? (
+                      <span className="text-[10px] text-ios-gray font-bold uppercase">Current</span>
+                    ) : (
+                      <button onClick={() => handleRestoreRevision(revision)} className="text-ios-blue text-xs font-semibold">
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Schedule Modal */}
+      <AnimatePresence>
+        {schedulingPins && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[110] bg-black/40 backdrop-blur-sm flex items-end justify-center p-6"
+          >
+            <motion.div 
+              initial={{ y: "100%" }}
+              animate={{ y: 0 }}
+              exit={{ y: "100%" }}
+              className="bg-white w-full max-w-sm rounded-3xl p-6 space-y-6 shadow-2xl"
+            >
+              <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold">
+                  {schedulingPins.length > 1 ? `Schedule ${schedulingPins.length} Pins` : 'Schedule Pin'}
+                </h3>
+                <button onClick={() => setSchedulingPins(null)} className="text-ios-gray">
+                  <ChevronRight size={24} className="rotate-90" />
+                </button>
+              </div>
+
+              <div>
+                <label className="text-xs font-bold text-ios-gray uppercase">
+                  {schedulingPins.length > 1 ? 'First pin goes out' : 'Publish at'}
+                </label>
+                <input 
+                  type="datetime-local"
+                  value={scheduleAt}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  className="ios-input w-full mt-1"
+                />
+                {schedulingPins.length > 1 && (
+                  <p className="text-[10px] text-ios-gray mt-2">The rest follow one per day at the same time.</p>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <button 
+                  onClick={() => setSchedulingPins(null)}
+                  className="ios-button-secondary flex-1"
+                >
+                  Cancel
+                </button>
+                <button 
+                  onClick={handleSchedule}
+                  disabled={isScheduling || !scheduleAt}
+                  className="ios-button-primary flex-1"
+                >
+                  {isScheduling ? 'Scheduling...' : 'Schedule'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Main Content */}
       <main className="min-h-screen">
         {activeTab === 'trends' && renderTrends()}
@@ -0,0 +1,117 @@
+// Pin copy and images are generated on the server, which holds the model credentials.
+// Images come back as stored asset URLs. A brandKitId of undefined applies the user's
+// default brand kit, null applies none.
+
+export interface PinContent {
+  title: string;
+  description: string;
+}
+
+// "model" and "repaired" copy passed the server's checks; "fallback" is the source's own
+// title and text, used when the model never produced valid copy
+export interface GeneratedCopy {
+  pins: PinContent[];
+  origin: 'model' | 'repaired' | 'fallback';
+}
+
+// How copy is written; the server fills anything left out from the user's saved defaults
+export interface GenerationOptions {
+  variations: number;
+  tone: string;
+  audience: string;
+  language: string;
+  title_max_chars: number;
+  description_min_chars: number;
+  description_max_chars: number;
+  cta_style: string;
+  emoji: boolean;
+  avoid_words: string[];
+}
+
+export interface GenerationDefaults {
+  options: GenerationOptions;
+  tones: { id: string; label: string }[];
+  cta_styles: { id: string; label: string }[];
+}
+
+export interface ChapterSource {
+  title: string;
+  excerpt: string;
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Generation failed");
+  return data;
+}
+
+export async function generatePinContent(
+  sourceTitle: string,
+  sourceDescription: string,
+  trends: string[],
+  details?: object | null,
+  options?: GenerationOptions | null,
+  brandKitId?: number | null
+): Promise<GeneratedCopy> {
+  return postJson<GeneratedCopy>('/api/generate/content', {
+    title: sourceTitle,
+    description: sourceDescription,
+    trends,
+    details: details ?? null,
+    options: options ?? undefined,
+    brand_kit_id: brandKitId
+  });
+}
+
+// One pin per chapter, in the same order; the variation count is ignored
+export async function generateChapterPins(videoTitle: string, chapters: ChapterSource[], trends: string[], options?: GenerationOptions | null, brandKitId?: number | null): Promise<GeneratedCopy> {
+  return postJson<GeneratedCopy>('/api/generate/content', {
+    title: videoTitle,
+    trends,
+    chapters: chapters.map(({ title, excerpt }) => ({ title, excerpt })),
+    options: options ?? undefined,
+    brand_kit_id: brandKitId
+  });
+}
+
+// Null when the model produced no image, so callers can fall back
+export async function generatePinImage(prompt: string, brandKitId?: number | null): Promise<string | null> {
+  try {
+    return (await postJson<{ url: string }>('/api/generate/image', { prompt, brand_kit_id: brandKitId })).url;
+  } catch (e) {
+    console.error("Image generation failed", e);
+    return null;
+  }
+}
+
+// Edits a stored image; returns the URL of the edited copy, or null when the edit failed
+export async function editPinImage(assetId: string, prompt: string, brandKitId?: number | null): Promise<string | null> {
+  try {
+    return (await postJson<{ url: string }>('/api/generate/edit-image', { asset_id: assetId, prompt, brand_kit_id: brandKitId })).url;
+  } catch (e) {
+    console.error("Image editing failed", e);
+    return null;
+  }
+}
+
+export async function fetchGenerationDefaults(): Promise<GenerationDefaults | null> {
+  const res = await fetch('/api/generate/defaults');
+  return res.ok ? res.json() : null;
+}
+
+// Saves the options as the user's defaults and returns them as stored
+export async function saveGenerationDefaults(options: GenerationOptions): Promise<GenerationOptions> {
+  const res = await fetch('/api/generate/defaults', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options)
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to save defaults");
+  return data.options;
+}